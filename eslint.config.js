@@ -25,5 +25,11 @@ export default tseslint.config(
       ],
       "@typescript-eslint/no-unused-vars": "off",
     },
+  },
+  {
+    files: ["src/{cli,node,server}/**/*.ts", "bin/**/*.js"],
+    languageOptions: {
+      globals: globals.node,
+    },
   }
 );
@@ -0,0 +1,118 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { defaultBannerFormats } from '../core';
+import { parseCliArgs, parseFormats } from './args';
+
+describe('parseFormats', () => {
+  it('parses a comma-separated size list', () => {
+    expect(parseFormats('728x90, 600X500').map(f => [f.id, f.name, f.aspectRatio])).toEqual([
+      ['cli-728x90', 'Banner 728x90', 8.09],
+      ['cli-600x500', 'Banner 600x500', 1.2],
+    ]);
+  });
+
+  it('rejects malformed sizes', () => {
+    expect(() => parseFormats('728x')).toThrow('Invalid format "728x"');
+    expect(() => parseFormats('0x90')).toThrow('Invalid format "0x90"');
+  });
+});
+
+describe('parseCliArgs', () => {
+  it('fills in defaults', () => {
+    expect(parseCliArgs(['optimize', './in', '--out', './out'])).toEqual({
+      command: 'optimize',
+      inputs: ['./in'],
+      outDir: './out',
+      formats: defaultBannerFormats,
+      fanOut: false,
+      fitMode: 'cover',
+      outputType: 'auto',
+      quality: 90,
+      budget: undefined,
+      filenameTemplate: '{name}_{w}x{h}',
+    });
+  });
+
+  it('combines sizes and preset packs and converts the budget to bytes', () => {
+    const command = parseCliArgs(['optimize', 'a.png', '-o', 'out', '-f', '320x50', '-p', 'email', '-t', 'jpg', '--max-size', '150', '--fan-out', '--campaign', 'Spring']);
+    expect(command).toMatchObject({ outputType: 'image/jpeg', budget: 150 * 1024, fanOut: true, campaign: 'Spring' });
+    expect(command.command === 'optimize' && command.formats.map(f => f.id)).toEqual([
+      'cli-320x50', 'email-600x200', 'email-600x300', 'email-640x200', 'email-700x250',
+    ]);
+  });
+
+  it('parses watch mode with a single directory', () => {
+    expect(parseCliArgs(['watch', './drop', '-o', './out', '--debounce', '1000'])).toMatchObject({
+      command: 'watch',
+      inputs: ['./drop'],
+      debounceMs: 1000,
+    });
+    expect(() => parseCliArgs(['watch', './a', './b', '-o', './out'])).toThrow('watch takes a single input directory');
+  });
+
+  it('returns help without a command', () => {
+    expect(parseCliArgs([])).toEqual({ command: 'help' });
+    expect(parseCliArgs(['optimize', '--help'])).toEqual({ command: 'help' });
+  });
+
+  it('reports usage errors', () => {
+    expect(() => parseCliArgs(['resize', 'a.png'])).toThrow('Unknown command "resize"');
+    expect(() => parseCliArgs(['optimize', 'a.png'])).toThrow('Missing --out directory');
+    expect(() => parseCliArgs(['optimize', 'a.png', '-o', 'out', '-q', '5'])).toThrow('Quality must be');
+    expect(() => parseCliArgs(['optimize', 'a.png', '-o', 'out', '--fit', 'fill'])).toThrow('Unknown fit mode');
+    expect(() => parseCliArgs(['optimize', 'a.png', '-o', 'out', '-p', 'tv'])).toThrow('Unknown preset pack "tv"');
+  });
+});
+
+describe('parseCliArgs with a config file', () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(tmpdir(), 'banner-config-'));
+    await writeFile(path.join(cwd, 'banner-optimizer.config.json'), JSON.stringify({
+      formats: [{ width: 728, height: 90, maxSizeKb: 150 }, { width: 300, height: 250, enabled: false }],
+      fitMode: 'contain',
+      outputType: 'webp',
+      quality: 70,
+      budgetKb: 80,
+      fanOut: true,
+      filenameTemplate: 'ads/{name}_{w}x{h}',
+    }));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('picks up the config from the working directory', () => {
+    const command = parseCliArgs(['optimize', 'in', '-o', 'out'], cwd);
+    expect(command).toMatchObject({
+      fitMode: 'contain',
+      outputType: 'image/webp',
+      quality: 70,
+      budget: 80 * 1024,
+      fanOut: true,
+      filenameTemplate: 'ads/{name}_{w}x{h}',
+    });
+    expect(command.command === 'optimize' && command.formats.map(f => [f.width, f.maxFileSize])).toEqual([[728, 150 * 1024]]);
+  });
+
+  it('lets flags override the config', () => {
+    expect(parseCliArgs(['optimize', 'in', '-o', 'out', '-q', '50', '--fit', 'cover', '-t', 'auto', '-f', '320x50'], cwd)).toMatchObject({
+      fitMode: 'cover',
+      outputType: 'auto',
+      quality: 50,
+      formats: [{ width: 320, height: 50 }],
+    });
+    expect(parseCliArgs(['optimize', 'in', '-o', 'out', '--no-fan-out'], cwd)).toMatchObject({ fanOut: false });
+    expect(() => parseCliArgs(['optimize', 'in', '-o', 'out', '--fan-out', '--no-fan-out'], cwd)).toThrow('can\'t be combined');
+  });
+
+  it('reports invalid or missing config files', async () => {
+    await writeFile(path.join(cwd, 'bad.json'), JSON.stringify({ quality: 'high' }));
+    expect(() => parseCliArgs(['optimize', 'in', '-o', 'out', '-c', 'bad.json'], cwd)).toThrow(/bad\.json: Invalid config: quality: Expected number/);
+    expect(() => parseCliArgs(['optimize', 'in', '-o', 'out', '-c', 'missing.json'], cwd)).toThrow('Config not found');
+  });
+});
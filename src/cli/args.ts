@@ -0,0 +1,192 @@
+import { parseArgs } from 'node:util';
+import {
+  CONFIG_FILENAME,
+  DEFAULT_FILENAME_TEMPLATE,
+  DEFAULT_QUALITY,
+  MIN_QUALITY,
+  createBannerFormat,
+  defaultBannerFormats,
+  getActiveConfigFormats,
+  getConfigOutputType,
+  outputTypes,
+  presetPacks,
+  type BannerFormat,
+  type FitMode,
+  type OutputTypeSetting,
+} from '../core';
+import { loadConfigFile } from '../node/config';
+
+export const DEFAULT_DEBOUNCE_MS = 500;
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_PORT = 8787;
+
+export const usage = `Usage: banner-optimizer optimize <input...> --out <dir> [options]
+       banner-optimizer watch <dir> --out <dir> [options]
+       banner-optimizer serve [--host <host>] [--port <port>]
+
+optimize processes image files or directories (not searched recursively) once.
+watch keeps processing new or changed images in <dir> and records every run
+in <out>/manifest.json until interrupted. serve starts the HTTP API, documented
+at /openapi.json.
+
+Settings come from ${CONFIG_FILENAME} in the working directory when present;
+flags override it.
+
+Options:
+  -o, --out <dir>         Output directory (required)
+  -c, --config <file>     Config file to use instead of ${CONFIG_FILENAME}
+  -f, --formats <list>    Banner sizes, e.g. 728x90,600x500
+  -p, --packs <list>      Preset packs: ${presetPacks.map(pack => pack.id).join(', ')}
+      --fan-out           Render every format instead of the best match
+      --no-fan-out        Render only the best match, even if the config fans out
+      --fit <mode>        cover, contain or stretch (default: cover)
+  -t, --type <type>       auto, jpeg, png, webp or avif (default: auto)
+  -q, --quality <n>       Quality ${MIN_QUALITY}-100 (default: ${DEFAULT_QUALITY})
+      --max-size <kb>     Size budget in KB for formats without their own
+      --campaign <name>   Value of the {campaign} filename token
+      --debounce <ms>     Watch only: wait this long for writes to settle (default: ${DEFAULT_DEBOUNCE_MS})
+      --host <host>       Serve only: interface to listen on (default: ${DEFAULT_HOST})
+      --port <port>       Serve only: port to listen on (default: ${DEFAULT_PORT})
+  -h, --help              Show this help
+`;
+
+export interface OptimizeCommand {
+  inputs: string[];
+  outDir: string;
+  formats: BannerFormat[];
+  fanOut: boolean;
+  fitMode: FitMode;
+  outputType: OutputTypeSetting;
+  quality: number;
+  /** Global budget in bytes. */
+  budget?: number;
+  filenameTemplate: string;
+  campaign?: string;
+}
+
+export interface WatchCommand extends OptimizeCommand {
+  debounceMs: number;
+}
+
+export interface ServeCommand {
+  host: string;
+  port: number;
+}
+
+export type CliCommand =
+  | { command: 'help' }
+  | ({ command: 'serve' } & ServeCommand)
+  | ({ command: 'optimize' } & OptimizeCommand)
+  | ({ command: 'watch' } & WatchCommand);
+
+const fitModes: FitMode[] = ['cover', 'contain', 'stretch'];
+
+const parseList = (value: string | undefined) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+/** Parses `728x90,600x500` into formats named like the UI's custom formats. */
+export const parseFormats = (value: string): BannerFormat[] =>
+  parseList(value).map(size => {
+    const match = /^(\d+)x(\d+)$/i.exec(size);
+    const width = Number(match?.[1]);
+    const height = Number(match?.[2]);
+    if (!match || width <= 0 || height <= 0) throw new Error(`Invalid format "${size}", expected WIDTHxHEIGHT`);
+    return createBannerFormat({ name: '', width, height, useCase: '' }, `cli-${width}x${height}`);
+  });
+
+export const resolvePacks = (value: string) =>
+  parseList(value).flatMap(id => {
+    const pack = presetPacks.find(p => p.id === id);
+    if (!pack) throw new Error(`Unknown preset pack "${id}"`);
+    return pack.formats;
+  });
+
+export const parseOutputType = (value: string): OutputTypeSetting => {
+  if (value === 'auto') return 'auto';
+  const normalized = value === 'jpg' ? 'jpeg' : value;
+  const match = outputTypes.find(t => t.value === `image/${normalized}`);
+  if (!match) throw new Error(`Unknown output type "${value}"`);
+  return match.value;
+};
+
+export const parseCliArgs = (argv: string[], cwd = process.cwd()): CliCommand => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      config: { type: 'string', short: 'c' },
+      formats: { type: 'string', short: 'f' },
+      packs: { type: 'string', short: 'p' },
+      'fan-out': { type: 'boolean' },
+      'no-fan-out': { type: 'boolean' },
+      fit: { type: 'string' },
+      type: { type: 'string', short: 't' },
+      quality: { type: 'string', short: 'q' },
+      'max-size': { type: 'string' },
+      campaign: { type: 'string' },
+      debounce: { type: 'string', default: String(DEFAULT_DEBOUNCE_MS) },
+      host: { type: 'string', default: DEFAULT_HOST },
+      port: { type: 'string', default: String(DEFAULT_PORT) },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) return { command: 'help' };
+  if (command === 'serve') {
+    const port = Number(values.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`Invalid port "${values.port}"`);
+    return { command, host: values.host, port };
+  }
+  if (command !== 'optimize' && command !== 'watch') throw new Error(`Unknown command "${command}"`);
+  if (inputs.length === 0) throw new Error('No input files or directories given');
+  if (command === 'watch' && inputs.length > 1) throw new Error('watch takes a single input directory');
+  if (!values.out) throw new Error('Missing --out directory');
+  if (values['fan-out'] && values['no-fan-out']) throw new Error('--fan-out and --no-fan-out can\'t be combined');
+
+  const config = loadConfigFile(values.config, cwd);
+
+  const fitMode = (values.fit ?? config?.fitMode ?? 'cover') as FitMode;
+  if (!fitModes.includes(fitMode)) throw new Error(`Unknown fit mode "${values.fit}"`);
+
+  const quality = values.quality !== undefined ? Number(values.quality) : config?.quality ?? DEFAULT_QUALITY;
+  if (!Number.isInteger(quality) || quality < MIN_QUALITY || quality > 100) {
+    throw new Error(`Quality must be a whole number between ${MIN_QUALITY} and 100`);
+  }
+
+  let budget: number | undefined;
+  if (values['max-size'] !== undefined) {
+    const maxSizeKb = Number(values['max-size']);
+    if (!(maxSizeKb > 0)) throw new Error('--max-size must be a positive number of KB');
+    budget = Math.round(maxSizeKb * 1024);
+  } else if (config?.budgetKb) {
+    budget = Math.round(config.budgetKb * 1024);
+  }
+
+  const formats = [
+    ...(values.formats ? parseFormats(values.formats) : []),
+    ...(values.packs ? resolvePacks(values.packs) : []),
+  ];
+
+  const configFormats = config ? getActiveConfigFormats(config) : defaultBannerFormats;
+  if (formats.length === 0 && configFormats.length === 0) throw new Error('The config enables no banner formats');
+
+  const options: OptimizeCommand = {
+    inputs,
+    outDir: values.out,
+    formats: formats.length > 0 ? formats : configFormats,
+    fanOut: values['no-fan-out'] ? false : values['fan-out'] ?? Boolean(config?.fanOut),
+    fitMode,
+    outputType: values.type !== undefined ? parseOutputType(values.type) : config ? getConfigOutputType(config) : 'auto',
+    quality,
+    budget,
+    filenameTemplate: config?.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE,
+    campaign: values.campaign ?? config?.campaign,
+  };
+  if (command === 'optimize') return { command, ...options };
+
+  const debounceMs = Number(values.debounce);
+  if (!Number.isInteger(debounceMs) || debounceMs < 0) throw new Error('--debounce must be a whole number of milliseconds');
+  return { command, ...options, debounceMs };
+};
@@ -0,0 +1,30 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createPng } from '../node/test-fixtures';
+
+const run = promisify(execFile);
+const bin = path.resolve(import.meta.dirname, '../../bin/banner-optimizer.js');
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'banner-bin-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+// Runs the real executable, so module loading happens in plain Node rather than through vitest
+describe('bin/banner-optimizer.js', () => {
+  it('optimizes an image end to end', async () => {
+    await writeFile(path.join(root, 'hero.png'), await createPng(600, 500));
+    const { stderr } = await run(process.execPath, [bin, 'optimize', path.join(root, 'hero.png'), '-o', path.join(root, 'out'), '-f', '300x250']);
+    expect(stderr).toContain('hero.png → hero_300x250.png');
+    expect(await readdir(path.join(root, 'out'))).toContain('hero_300x250.png');
+  }, 30000);
+});
@@ -0,0 +1,75 @@
+import { createApiServer } from '../server/app';
+import { parseCliArgs, usage, type ServeCommand, type WatchCommand } from './args';
+import { runOptimize, type OptimizeRow } from './optimize';
+import { formatSummaryTable, isFailedRow } from './table';
+import { watchFolder } from './watch';
+
+const logRow = (row: OptimizeRow) => {
+  console.error(`${row.error ? '✗' : '✓'} ${row.source}${row.output ? ` → ${row.output}` : ''}${row.error ? ` (${row.error})` : ''}`);
+};
+
+const waitForSignal = () => new Promise<void>(resolve => {
+  process.once('SIGINT', resolve);
+  process.once('SIGTERM', resolve);
+});
+
+/** Watches until SIGINT/SIGTERM, then lets the current file finish before exiting. */
+const runWatch = async (command: WatchCommand) => {
+  const watcher = watchFolder(command, {
+    onRow: logRow,
+    onSkip: source => console.error(`- ${source} unchanged, skipped`),
+    onError: error => console.error(error.message),
+  });
+  await watcher.ready;
+  console.error(`Watching ${command.inputs[0]} → ${command.outDir} (Ctrl+C to stop)`);
+
+  await waitForSignal();
+  await watcher.close();
+  return 0;
+};
+
+const runServe = async (command: ServeCommand) => {
+  const server = createApiServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(command.port, command.host, resolve);
+  });
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : command.port;
+  console.error(`Banner Optimizer API listening on http://${command.host}:${port} (Ctrl+C to stop)`);
+
+  await waitForSignal();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  return 0;
+};
+
+/** Runs the CLI and resolves to the process exit code: 0 on success, 1 if any banner failed, 2 on usage errors. */
+export const main = async (argv: string[]): Promise<number> => {
+  let command;
+  try {
+    command = parseCliArgs(argv);
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${usage}`);
+    return 2;
+  }
+
+  if (command.command === 'help') {
+    console.log(usage);
+    return 0;
+  }
+
+  try {
+    if (command.command === 'watch') return await runWatch(command);
+    if (command.command === 'serve') return await runServe(command);
+
+    const rows = await runOptimize(command, logRow);
+    console.log(`\n${formatSummaryTable(rows)}\n`);
+    const failed = rows.filter(isFailedRow).length;
+    console.log(`${rows.length - failed} of ${rows.length} banners written to ${command.outDir}`);
+    return failed > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+};
@@ -0,0 +1,78 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { OutputType } from '../core';
+import type { OptimizeRow } from './optimize';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+
+export interface ManifestOutput {
+  output: string;
+  format: { id: string; name: string; width: number; height: number };
+  type: OutputType;
+  quality: number;
+  size: number;
+  budget?: number;
+  budgetMet?: boolean;
+}
+
+export interface ManifestEntry {
+  source: string;
+  /** Size and modification time of the source when it was processed, to skip unchanged files. */
+  sourceSize: number;
+  sourceModified: string;
+  processedAt: string;
+  outputs: ManifestOutput[];
+  errors: string[];
+}
+
+export interface Manifest {
+  version: 1;
+  updatedAt: string;
+  entries: Record<string, ManifestEntry>;
+}
+
+export const createManifest = (): Manifest => ({ version: 1, updatedAt: new Date().toISOString(), entries: {} });
+
+/** Reads the manifest in `outDir`; a missing or unreadable one starts a new manifest. */
+export const readManifest = async (outDir: string): Promise<Manifest> => {
+  try {
+    const manifest = JSON.parse(await readFile(path.join(outDir, MANIFEST_FILENAME), 'utf8'));
+    return manifest?.version === 1 && manifest.entries ? manifest : createManifest();
+  } catch {
+    return createManifest();
+  }
+};
+
+/** Writes through a temporary file so readers never see a half-written manifest. */
+export const writeManifest = async (outDir: string, manifest: Manifest) => {
+  const target = path.join(outDir, MANIFEST_FILENAME);
+  const temp = `${target}.${process.pid}.tmp`;
+  await writeFile(temp, `${JSON.stringify({ ...manifest, updatedAt: new Date().toISOString() }, null, 2)}\n`);
+  await rename(temp, target);
+};
+
+export const toManifestEntry = (
+  source: string,
+  stats: { size: number; mtime: Date },
+  rows: OptimizeRow[]
+): ManifestEntry => ({
+  source,
+  sourceSize: stats.size,
+  sourceModified: stats.mtime.toISOString(),
+  processedAt: new Date().toISOString(),
+  outputs: rows
+    .filter(row => !row.error && row.format && row.output)
+    .map(row => ({
+      output: row.output!,
+      format: { id: row.format!.id, name: row.format!.name, width: row.format!.width, height: row.format!.height },
+      type: row.type!,
+      quality: row.quality!,
+      size: row.size!,
+      budget: row.budget,
+      budgetMet: row.budgetMet,
+    })),
+  errors: rows.filter(row => row.error).map(row => row.error!),
+});
+
+export const isUnchanged = (entry: ManifestEntry | undefined, stats: { size: number; mtime: Date }) =>
+  Boolean(entry) && entry!.sourceSize === stats.size && entry!.sourceModified === stats.mtime.toISOString();
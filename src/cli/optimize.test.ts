@@ -0,0 +1,62 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_FILENAME_TEMPLATE } from '../core';
+import { createPng } from '../node/test-fixtures';
+import { resolvePacks, type OptimizeCommand } from './args';
+import { runOptimize } from './optimize';
+
+let root: string;
+
+const createCommand = (overrides: Partial<OptimizeCommand> = {}): OptimizeCommand => ({
+  inputs: [path.join(root, 'in.png')],
+  outDir: path.join(root, 'out'),
+  formats: resolvePacks('iab,gdn'),
+  fanOut: true,
+  fitMode: 'cover',
+  outputType: 'auto',
+  quality: 80,
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'banner-optimize-'));
+  await writeFile(path.join(root, 'in.png'), await createPng(600, 500));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('runOptimize', () => {
+  it('numbers outputs of sizes shared by several packs instead of overwriting them', async () => {
+    const rows = await runOptimize(createCommand());
+    const outputs = rows.map(row => row.output);
+    expect(rows.every(row => !row.error)).toBe(true);
+    expect(outputs.filter(output => output?.startsWith('in_300x250'))).toEqual(['in_300x250.png', 'in_300x250-2.png']);
+    expect((await readdir(path.join(root, 'out'))).sort()).toEqual([...outputs].sort());
+  });
+
+  it('keeps outputs of different sources apart when the template leaves out their names', async () => {
+    await writeFile(path.join(root, 'other.png'), await createPng(600, 500));
+    const rows = await runOptimize(createCommand({
+      inputs: [path.join(root, 'in.png'), path.join(root, 'other.png')],
+      formats: resolvePacks('iab').filter(format => format.width === 300 && format.height === 250),
+      filenameTemplate: '{w}x{h}',
+    }));
+    expect(rows.map(row => row.output)).toEqual(['300x250.png', '300x250-2.png']);
+    expect(await readdir(path.join(root, 'out'))).toHaveLength(2);
+  });
+
+  it('numbers `{index}` by source, so every output of one source shares it', async () => {
+    await writeFile(path.join(root, 'other.png'), await createPng(600, 500));
+    const rows = await runOptimize(createCommand({
+      inputs: [path.join(root, 'in.png'), path.join(root, 'other.png')],
+      formats: resolvePacks('iab').filter(format => format.height === 250),
+      filenameTemplate: '{index}_{w}x{h}',
+    }));
+    expect(rows.map(row => row.output)).toEqual(['1_300x250.png', '1_970x250.png', '2_300x250.png', '2_970x250.png']);
+  });
+});
@@ -0,0 +1,150 @@
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  buildOutputFilename,
+  dedupeFilenames,
+  findBestFormat,
+  getDefaultOutputType,
+  getSourceHash,
+  getSourceIndex,
+  type BannerFormat,
+  type OutputType,
+} from '../core';
+import type { OptimizeCommand } from './args';
+import { decodeSource, renderBanner } from '../node/render';
+
+const inputTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.gif': 'image/gif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+};
+
+export const getInputType = (filename: string): string | undefined => inputTypes[path.extname(filename).toLowerCase()];
+
+export interface OptimizeRow {
+  source: string;
+  format?: BannerFormat;
+  output?: string;
+  type?: OutputType;
+  quality?: number;
+  size?: number;
+  budget?: number;
+  budgetMet?: boolean;
+  error?: string;
+}
+
+/** Expands directories into the images they contain; explicit file paths are kept even without a known extension. */
+export const collectInputs = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new Error(`Input not found: ${input}`);
+    if (info.isDirectory()) {
+      const entries = await readdir(input, { withFileTypes: true });
+      files.push(...entries
+        .filter(entry => entry.isFile() && getInputType(entry.name))
+        .map(entry => path.join(input, entry.name))
+        .sort());
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+};
+
+/**
+ * Optimizes one source file into every banner it maps to, using the same best-match and
+ * naming rules as the browser queue. Failures are returned as rows, not thrown. Names
+ * already in `written` are numbered rather than overwritten; written names are added to it.
+ */
+export const optimizeFile = async (
+  file: string,
+  options: Omit<OptimizeCommand, 'inputs'>,
+  index?: number,
+  written: string[] = []
+): Promise<OptimizeRow[]> => {
+  const source = path.basename(file);
+  let decoded;
+  let hash: string;
+  try {
+    const data = await readFile(file);
+    hash = await getSourceHash(data);
+    decoded = await decodeSource(data);
+  } catch (error) {
+    return [{ source, error: error instanceof Error ? error.message : 'Failed to load image' }];
+  }
+
+  const outputType = options.outputType === 'auto'
+    ? getDefaultOutputType(getInputType(file) ?? '')
+    : options.outputType;
+  const formats = options.fanOut
+    ? options.formats
+    : [findBestFormat(decoded.width, decoded.height, options.formats)];
+
+  const rows: OptimizeRow[] = [];
+  for (const format of formats) {
+    const budget = format.maxFileSize ?? options.budget;
+    try {
+      const result = await renderBanner(decoded, {
+        outputType,
+        quality: options.quality,
+        fitMode: options.fitMode,
+        format,
+        budget,
+      });
+      // Named after encoding so the extension and `{quality}` match what the size search settled on
+      const output = dedupeFilenames([
+        ...written,
+        buildOutputFilename(source, format, result.type, options.filenameTemplate, {
+          campaign: options.campaign,
+          quality: result.quality,
+          index,
+          hash,
+        }),
+      ]).pop()!;
+      written.push(output);
+      // Templates may contain folders, e.g. `{w}x{h}/{name}`
+      const target = path.join(options.outDir, output);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, result.blob.data);
+      rows.push({
+        source,
+        format,
+        output,
+        type: result.type,
+        quality: result.quality,
+        size: result.size,
+        budget,
+        budgetMet: result.budgetMet,
+      });
+    } catch (error) {
+      rows.push({ source, format, error: error instanceof Error ? error.message : 'Processing failed' });
+    }
+  }
+  return rows;
+};
+
+export const runOptimize = async (
+  command: OptimizeCommand,
+  onRow?: (row: OptimizeRow) => void
+): Promise<OptimizeRow[]> => {
+  const files = await collectInputs(command.inputs);
+  if (files.length === 0) throw new Error('No images found in the given inputs');
+  await mkdir(command.outDir, { recursive: true });
+
+  const rows: OptimizeRow[] = [];
+  // Overlapping packs and templates without `{name}` would otherwise overwrite earlier outputs
+  const written: string[] = [];
+  for (const file of files) {
+    for (const row of await optimizeFile(file, command, getSourceIndex(files, file), written)) {
+      rows.push(row);
+      onRow?.(row);
+    }
+  }
+  return rows;
+};
@@ -0,0 +1,35 @@
+import { formatFileSize, outputTypes } from '../core';
+import type { OptimizeRow } from './optimize';
+
+const headers = ['Source', 'Format', 'Output', 'Type', 'Quality', 'Size', 'Budget', 'Status'];
+
+const getStatus = (row: OptimizeRow) => {
+  if (row.error) return `error: ${row.error}`;
+  if (row.budgetMet === false) return 'over budget';
+  return 'ok';
+};
+
+const toCells = (row: OptimizeRow) => [
+  row.source,
+  row.format ? `${row.format.width}x${row.format.height}` : '—',
+  row.output ?? '—',
+  outputTypes.find(t => t.value === row.type)?.label ?? '—',
+  row.quality !== undefined ? String(row.quality) : '—',
+  row.size !== undefined ? formatFileSize(row.size) : '—',
+  row.budget ? formatFileSize(row.budget) : '—',
+  getStatus(row),
+];
+
+/** Plain-text summary table with padded columns. */
+export const formatSummaryTable = (rows: OptimizeRow[]) => {
+  const lines = [headers, ...rows.map(toCells)];
+  const widths = headers.map((_, column) => Math.max(...lines.map(cells => cells[column].length)));
+  const format = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [
+    format(lines[0]),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...lines.slice(1).map(format),
+  ].join('\n');
+};
+
+export const isFailedRow = (row: OptimizeRow) => Boolean(row.error);
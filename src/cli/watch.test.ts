@@ -0,0 +1,109 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_FILENAME_TEMPLATE, defaultBannerFormats } from '../core';
+import { createPng } from '../node/test-fixtures';
+import type { WatchCommand } from './args';
+import { MANIFEST_FILENAME, type Manifest } from './manifest';
+import { watchFolder, type FolderWatcher } from './watch';
+
+let root: string;
+let watcher: FolderWatcher | undefined;
+
+const createCommand = (): WatchCommand => ({
+  inputs: [path.join(root, 'in')],
+  outDir: path.join(root, 'out'),
+  formats: defaultBannerFormats,
+  fanOut: false,
+  fitMode: 'cover',
+  outputType: 'auto',
+  quality: 80,
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  debounceMs: 30,
+});
+
+const readManifestFile = async (): Promise<Manifest | null> =>
+  JSON.parse(await readFile(path.join(root, 'out', MANIFEST_FILENAME), 'utf8').catch(() => 'null'));
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'banner-watch-'));
+  await mkdir(path.join(root, 'in'));
+});
+
+afterEach(async () => {
+  await watcher?.close();
+  watcher = undefined;
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('watchFolder', () => {
+  it('processes existing and newly added images into the manifest', async () => {
+    await writeFile(path.join(root, 'in', 'existing.png'), await createPng(1200, 1000));
+    const rows: string[] = [];
+    watcher = watchFolder(createCommand(), { onRow: row => rows.push(row.output ?? row.error ?? '') });
+    await watcher.ready;
+
+    await vi.waitFor(() => expect(rows).toEqual(['existing_600x500.png']), { timeout: 5000 });
+
+    await writeFile(path.join(root, 'in', 'Wide.png'), await createPng(1456, 180));
+    await writeFile(path.join(root, 'in', 'notes.txt'), 'ignored');
+    await vi.waitFor(async () => {
+      const manifest = await readManifestFile();
+      expect(Object.keys(manifest?.entries ?? {}).sort()).toEqual(['Wide.png', 'existing.png']);
+    }, { timeout: 5000 });
+
+    const manifest = await readManifestFile();
+    expect(manifest!.entries['Wide.png'].outputs).toMatchObject([
+      { output: 'wide_728x90.png', format: { width: 728, height: 90 }, type: 'image/png' },
+    ]);
+    await expect(readFile(path.join(root, 'out', 'wide_728x90.png'))).resolves.toBeInstanceOf(Buffer);
+  });
+
+  it('skips sources already recorded in the manifest', async () => {
+    await writeFile(path.join(root, 'in', 'hero.png'), await createPng(1200, 1000));
+    const first = watchFolder(createCommand());
+    await first.ready;
+    await vi.waitFor(async () => expect((await readManifestFile())?.entries['hero.png']).toBeDefined(), { timeout: 5000 });
+    await first.close();
+
+    const skipped: string[] = [];
+    const rows: string[] = [];
+    watcher = watchFolder(createCommand(), { onSkip: source => skipped.push(source), onRow: row => rows.push(row.source) });
+    await watcher.ready;
+    await vi.waitFor(() => expect(skipped).toEqual(['hero.png']), { timeout: 5000 });
+    expect(rows).toEqual([]);
+  });
+
+  it('numbers outputs whose names another source already took', async () => {
+    const rows: string[] = [];
+    watcher = watchFolder({ ...createCommand(), outputType: 'image/png' }, { onRow: row => rows.push(row.output ?? row.error ?? '') });
+    await watcher.ready;
+    await writeFile(path.join(root, 'in', 'hero.png'), await createPng(1200, 1000));
+    await vi.waitFor(() => expect(rows).toEqual(['hero_600x500.png']), { timeout: 5000 });
+
+    await writeFile(path.join(root, 'in', 'hero.jpg'), await createPng(1200, 1000));
+    await vi.waitFor(() => expect(rows).toEqual(['hero_600x500.png', 'hero_600x500-2.png']), { timeout: 5000 });
+
+    // A changed source keeps its own name
+    await writeFile(path.join(root, 'in', 'hero.png'), await createPng(1200, 1001));
+    await vi.waitFor(() => expect(rows).toEqual(['hero_600x500.png', 'hero_600x500-2.png', 'hero_600x500.png']), { timeout: 5000 });
+  });
+
+  it('records decode failures instead of stopping', async () => {
+    const errors: string[] = [];
+    watcher = watchFolder(createCommand(), { onRow: row => row.error && errors.push(row.error) });
+    await watcher.ready;
+    await writeFile(path.join(root, 'in', 'broken.jpg'), 'not an image');
+
+    await vi.waitFor(async () => {
+      expect((await readManifestFile())?.entries['broken.jpg']).toMatchObject({ outputs: [], errors: ['Failed to load image'] });
+    }, { timeout: 5000 });
+    expect(errors).toEqual(['Failed to load image']);
+  });
+
+  it('refuses to write into the watched folder', async () => {
+    watcher = watchFolder({ ...createCommand(), outDir: path.join(root, 'in') });
+    await expect(watcher.ready).rejects.toThrow('The output directory must differ from the watched one');
+  });
+});
@@ -0,0 +1,113 @@
+import { watch, type FSWatcher } from 'node:fs';
+import { mkdir, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { getSourceIndex } from '../core';
+import type { WatchCommand } from './args';
+import { isUnchanged, readManifest, toManifestEntry, writeManifest } from './manifest';
+import { getInputType, optimizeFile, type OptimizeRow } from './optimize';
+
+export interface WatchEvents {
+  onRow?: (row: OptimizeRow) => void;
+  onSkip?: (source: string) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface FolderWatcher {
+  /** Resolves once the initial scan is scheduled and the folder is being watched. */
+  ready: Promise<void>;
+  /** Stops watching and waits for the file being processed to finish. */
+  close: () => Promise<void>;
+}
+
+interface Snapshot {
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Watches the input folder and runs new or changed images through the banner pipeline.
+ * A file is only picked up once its size and modification time hold still for one
+ * debounce interval, so copies that are still being written are not read half-way.
+ */
+export const watchFolder = (command: WatchCommand, events: WatchEvents = {}): FolderWatcher => {
+  const inDir = command.inputs[0];
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const snapshots = new Map<string, Snapshot>();
+  let watcher: FSWatcher | null = null;
+  let closed = false;
+  let queue = Promise.resolve();
+  const sources: string[] = [];
+
+  const reportError = (error: unknown) => events.onError?.(error instanceof Error ? error : new Error(String(error)));
+
+  const ready = (async () => {
+    const info = await stat(inDir).catch(() => null);
+    if (!info?.isDirectory()) throw new Error(`Watch input must be a directory: ${inDir}`);
+    if (path.resolve(inDir) === path.resolve(command.outDir)) throw new Error('The output directory must differ from the watched one');
+    await mkdir(command.outDir, { recursive: true });
+    const manifest = await readManifest(command.outDir);
+
+    const processFile = async (name: string) => {
+      const file = path.join(inDir, name);
+      const stats = await stat(file).catch(() => null);
+      if (closed || !stats?.isFile()) return;
+      if (isUnchanged(manifest.entries[name], stats)) {
+        events.onSkip?.(name);
+        return;
+      }
+      // The batch is every file handled since the watch started; a changed file keeps its number
+      const index = getSourceIndex(sources, name);
+      if (!sources.includes(name)) sources.push(name);
+      // Names taken by other sources, e.g. hero.jpg for hero.png; a changed file reuses its own
+      const written = Object.values(manifest.entries)
+        .filter(entry => entry.source !== name)
+        .flatMap(entry => entry.outputs.map(output => output.output));
+      const rows = await optimizeFile(file, command, index, written);
+      rows.forEach(row => events.onRow?.(row));
+      manifest.entries[name] = toManifestEntry(name, stats, rows);
+      await writeManifest(command.outDir, manifest);
+    };
+
+    const check = async (name: string) => {
+      timers.delete(name);
+      const stats = await stat(path.join(inDir, name)).catch(() => null);
+      if (!stats?.isFile()) {
+        snapshots.delete(name);
+        return;
+      }
+      const previous = snapshots.get(name);
+      if (!previous || previous.size !== stats.size || previous.mtimeMs !== stats.mtimeMs) {
+        snapshots.set(name, { size: stats.size, mtimeMs: stats.mtimeMs });
+        schedule(name);
+        return;
+      }
+      snapshots.delete(name);
+      queue = queue.then(() => processFile(name)).catch(reportError);
+    };
+
+    const schedule = (name: string) => {
+      if (closed || !getInputType(name)) return;
+      clearTimeout(timers.get(name));
+      timers.set(name, setTimeout(() => check(name).catch(reportError), command.debounceMs));
+    };
+
+    watcher = watch(inDir, (_, filename) => {
+      if (filename) schedule(filename.toString());
+    });
+    watcher.on('error', reportError);
+
+    const entries = await readdir(inDir, { withFileTypes: true });
+    entries.filter(entry => entry.isFile()).forEach(entry => schedule(entry.name));
+  })();
+
+  const close = async () => {
+    closed = true;
+    await ready.catch(() => undefined);
+    watcher?.close();
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+    await queue;
+  };
+
+  return { ready, close };
+};
@@ -1,7 +1,8 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import {
   Button, Card, CardContent, CardHeader, Typography, Chip, LinearProgress, Slider,
-  Container, Grid, Box, Paper, Snackbar, Alert, CircularProgress, TextField
+  Container, Grid, Box, Paper, Snackbar, Alert, CircularProgress, TextField,
+  MenuItem, ToggleButton, ToggleButtonGroup, FormControlLabel, Switch, Link, Checkbox
 } from '@mui/material';
 import {
   UploadFile as UploadFileIcon,
@@ -11,78 +12,240 @@ import {
   Image as ImageIcon,
   Bolt as ZapIcon,
   Archive as ArchiveIcon,
+  Crop as CropIcon,
+  CallSplit as FanOutIcon,
+  Tune as TuneIcon,
+  Pause as PauseIcon,
+  PlayArrow as ResumeIcon,
+  Cancel as CancelIcon,
+  Replay as RetryIcon,
+  FileOpen as ImportIcon,
+  SaveAlt as ExportIcon,
+  DriveFileRenameOutline as RenameIcon,
+  FolderOpen as FolderIcon,
+  Animation as AnimationIcon,
+  AutoFixHigh as FixIcon,
 } from '@mui/icons-material';
-import JSZip from 'jszip';
-
-const getFileExtension = (mimeType: string) => {
-  switch (mimeType) {
-    case 'image/png': return 'png';
-    case 'image/webp': return 'webp';
-    case 'image/jpeg':
-    default: return 'jpeg';
-  }
+import {
+  CONFIG_FILENAME, DEFAULT_FILENAME_TEMPLATE, DEFAULT_QUALITY, EXPORT_CSV_FILENAME, EXPORT_MANIFEST_FILENAME,
+  MIN_QUALITY, SVG_TYPE, SVG_WITHOUT_SIZE_MESSAGE,
+  animatedOutputTypes, buildOutputFilename, createBannerConfig, createExportManifest, exportLayouts, exportManifestToCsv,
+  filenameTokens, findBestFormat, formatFileSize, getAnimatedOutputType, getAnimationIssues, getBaseName,
+  getConfigFormats, getConfigOutputType, getDefaultOutputType, getExportPath, getFileExtension, getFilenameIssues,
+  getSourceHash, getSourceIndex, getSvgIntrinsicSize, getUnknownTemplateTokens, getVolumeFilename, isLossyType, outputTypes,
+  parseBannerConfig, readAnimationInfo, replaceExtension, sanitizeFilename, serializeBannerConfig, splitExportVolumes,
+  type AnimatedOutputSetting, type AnimatedOutputType, type AnimationInfo, type AnimationRules, type BannerConfig,
+  type BannerFormat, type CropRect, type ExportEntry, type ExportLayout, type FitMode, type FocalPoint, type OutputType,
+  type OutputTypeSetting, type ProcessingStatus
+} from '@/core';
+import { isOutputTypeSupported } from '@/lib/canvas';
+import {
+  stageLabels, supportsAnimatedPipeline, supportsOffscreenPipeline, type OptimizeOptions, type ProcessingStage
+} from '@/lib/pipeline';
+import { createWorkerPool, getDefaultConcurrency, isAbortError, type WorkerPool } from '@/lib/worker-pool';
+import { expandInputFiles, fromFileList, readClipboard, readDataTransfer, readHtmlImages, type InputFile } from '@/lib/input-files';
+import {
+  createBlobDestination, pickDiskDestination, supportsFileSystemAccess, writeZipVolumes, type ZipProgress
+} from '@/lib/zip-export';
+import { useBannerFormats } from '@/hooks/use-banner-formats';
+import CropEditorDialog from '@/components/CropEditorDialog';
+import FormatManagerDialog from '@/components/FormatManagerDialog';
+import BulkRenameDialog from '@/components/BulkRenameDialog';
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
 };
 
-interface BannerFormat {
-  name: string;
-  width: number;
-  height: number;
-  aspectRatio: number;
-  useCase: string;
-}
+const formatAnimation = ({ frameCount, loopCount, duration }: AnimationInfo) =>
+  `${frameCount} frames · ${(duration / 1000).toFixed(1)}s · ` +
+  (loopCount === 0 ? 'loops forever' : loopCount === 1 ? 'plays once' : `plays ${loopCount} times`);
+
+const formatAnimationRules = ({ maxDuration, maxLoops, maxFrameRate }: AnimationRules) => [
+  maxDuration && `${maxDuration / 1000}s`,
+  maxLoops && `${maxLoops} loops`,
+  maxFrameRate && `${maxFrameRate} fps`,
+].filter(Boolean).join(' · ');
+
+const fitModes: { value: FitMode; label: string; description: string }[] = [
+  { value: 'cover', label: 'Cover', description: 'Crop to fill the banner' },
+  { value: 'contain', label: 'Contain', description: 'Letterbox inside the banner' },
+  { value: 'stretch', label: 'Stretch', description: 'Distort to the exact size' },
+];
 
 interface ProcessedFile {
   id: string;
   originalFile: File;
-  status: 'queued' | 'processing' | 'completed' | 'error';
+  status: ProcessingStatus;
   progress: number;
+  stage?: ProcessingStage;
+  stageDetail?: string;
   optimizedBlob?: Blob;
   originalSize: number;
   optimizedSize?: number;
   selectedFormat?: BannerFormat;
   errorMessage?: string;
   outputFilename: string;
+  /** True once the name was typed by hand; it then no longer follows the filename template. */
+  filenameEdited?: boolean;
+  /** Value of the `{hash}` filename token, filled in once the upload has been read. */
+  sourceHash?: string;
+  fitMode?: FitMode;
+  sourceWidth?: number;
+  sourceHeight?: number;
+  crop?: CropRect;
+  focalPoint?: FocalPoint;
+  /** Set on every output fanned out from the same upload so they can be grouped. */
+  sourceId?: string;
+  /** Where the source sat in a dropped folder or ZIP, e.g. `spring/en/hero.png`. */
+  sourcePath?: string;
+  /** Set to 2 on the extra @2x output of an SVG. */
+  pixelRatio?: number;
+  /** Frame count, loops and duration of an animated source, read when it is queued. */
+  animation?: AnimationInfo;
+  /** Type an animated source is encoded as while its animation is kept; wins over the still output type. */
+  animatedOutputType?: AnimatedOutputType;
+  /** Set once asked to fix the animation to the format's rules, so reprocessing does so. */
+  fitAnimation?: boolean;
+  /** Per-file overrides of the global output type and quality. */
+  requestedOutputType?: OutputType;
+  quality?: number;
+  outputType?: OutputType | AnimatedOutputType;
+  finalQuality?: number;
+  budget?: number;
+  budgetMet?: boolean;
+  /** Frame count, loops and duration of an animated output, which fixes may have changed. */
+  outputAnimation?: AnimationInfo;
+  animationChanges?: string[];
+  /** Campaign name at the time the file was optimized, for the per-campaign ZIP layout. */
+  campaign?: string;
 }
 
-const bannerFormats: BannerFormat[] = [
-    { name: 'Banner 600x500', width: 600, height: 500, aspectRatio: 1.2, useCase: 'Standard Square Banner' },
-    { name: 'Banner 640x200', width: 640, height: 200, aspectRatio: 3.2, useCase: 'Horizontal Rectangular Banner' },
-    { name: 'Banner 728x90', width: 728, height: 90, aspectRatio: 8.09, useCase: 'Leaderboard Horizontal Banner' },
-    { name: 'Banner 420x200', width: 420, height: 200, aspectRatio: 2.1, useCase: 'Medium Horizontal Banner' },
-    { name: 'Banner 1100x361', width: 1100, height: 361, aspectRatio: 3.05, useCase: 'Large Header Banner' },
-    { name: 'Banner 630x250', width: 630, height: 250, aspectRatio: 2.52, useCase: 'Wide Content Banner' }
-];
+/** Fan-out outputs share their source's key, so they share a `{index}` and a queue group. */
+const getSourceKey = (file: ProcessedFile) => file.sourceId ?? file.id;
+
+const getExportEntry = (file: ProcessedFile, outputType: OutputType | AnimatedOutputType, campaign?: string): ExportEntry => ({
+  source: file.originalFile.name,
+  sourcePath: file.sourcePath,
+  output: file.outputFilename,
+  format: file.pixelRatio
+    ? { ...file.selectedFormat!, width: file.selectedFormat!.width * file.pixelRatio, height: file.selectedFormat!.height * file.pixelRatio }
+    : file.selectedFormat!,
+  type: outputType,
+  quality: file.finalQuality,
+  campaign: file.campaign ?? campaign,
+  sourceSize: file.originalSize,
+  size: file.optimizedSize,
+});
+
+/** Size used for format matching and the crop editor; an SVG's own size rather than how a browser would draw it. */
+const readSourceSize = async (file: File) => {
+  if (file.type === SVG_TYPE) {
+    const size = getSvgIntrinsicSize(await file.text());
+    if (!size) throw new Error(SVG_WITHOUT_SIZE_MESSAGE);
+    return size;
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return await new Promise<{ width: number; height: number }>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.width, height: img.height });
+      img.onerror = () => reject(new Error('Failed to read image dimensions.'));
+      img.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const resolveOutputType = (file: ProcessedFile, setting: OutputTypeSetting): OutputType =>
+  file.requestedOutputType ?? (setting === 'auto' ? getDefaultOutputType(file.originalFile.type, isOutputTypeSupported) : setting);
+
+/** Type the output will have: the animated type for animations being kept, the still type otherwise. */
+const resolveResultType = (file: ProcessedFile, setting: OutputTypeSetting): OutputType | AnimatedOutputType =>
+  file.animatedOutputType ?? resolveOutputType(file, setting);
+
+interface ProcessingJob {
+  file: ProcessedFile;
+  options: OptimizeOptions;
+  controller: AbortController;
+}
+
+interface Scheduler {
+  pending: ProcessingJob[];
+  /** Abort controllers of the jobs currently running, by file id. */
+  active: Map<string, AbortController>;
+  runners: number;
+  paused: boolean;
+  resumeWaiters: (() => void)[];
+}
 
 const DropZone: React.FC<{
-  onFilesSelected: (files: File[]) => void;
+  onFilesSelected: (files: InputFile[]) => void;
   isDragOver: boolean;
   setIsDragOver: (isDragOver: boolean) => void;
   showToast: (message: string, severity: 'success' | 'error') => void;
 }> = ({ onFilesSelected, isDragOver, setIsDragOver, showToast }) => {
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragOver(false);
-    
-    const files = Array.from(e.dataTransfer.files).filter(file => {
-      if (!file.type.startsWith('image/')) {
-        showToast(`${file.name} is not an image file`, 'error');
-        return false;
-      }
-      return true;
-    });
-    
+  const addInputs = useCallback(async (inputs: InputFile[]) => {
+    const { files, skipped } = await expandInputFiles(inputs);
+    if (files.length === 0 && skipped.length === 0) {
+      showToast('No images found in what was dropped', 'error');
+    } else if (skipped.length === 1) {
+      showToast(`${skipped[0]} is not an image file`, 'error');
+    } else if (skipped.length > 1) {
+      showToast(`Skipped ${skipped.length} files that are not images`, 'error');
+    }
     if (files.length > 0) {
       onFilesSelected(files);
     }
-  }, [onFilesSelected, setIsDragOver, showToast]);
+  }, [onFilesSelected, showToast]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    // Images dragged from another tab may arrive only as HTML with the image inlined
+    const html = e.dataTransfer.getData('text/html');
+    readDataTransfer(e.dataTransfer)
+      .then(inputs => inputs.length > 0 ? inputs : readHtmlImages(html))
+      .then(addInputs)
+      .catch(() => showToast('Could not read the dropped files', 'error'));
+  }, [addInputs, setIsDragOver, showToast]);
+
+  // Screenshots and frames copied from design tools can be pasted anywhere on the page
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData) return;
+      const target = e.target instanceof Element ? e.target : null;
+      const inTextField = Boolean(target?.closest('input, textarea, [contenteditable="true"]'));
+      const inputs = readClipboard(e.clipboardData, !inTextField);
+      if (inputs.length === 0) return;
+      e.preventDefault();
+      addInputs(inputs).catch(() => showToast('Could not read the pasted images', 'error'));
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [addInputs, showToast]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    if (files.length > 0) {
-      onFilesSelected(files);
+    const inputs = fromFileList(e.target.files || []);
+    // Clearing the input lets the same folder or files be picked again
+    e.target.value = '';
+    if (inputs.length > 0) {
+      addInputs(inputs).catch(() => showToast('Could not read the selected files', 'error'));
     }
-  }, [onFilesSelected]);
+  }, [addInputs, showToast]);
 
   return (
     <Paper
@@ -106,25 +269,44 @@ const DropZone: React.FC<{
         Drop your images here
       </Typography>
       <Typography color="text.secondary" sx={{ mb: 2 }}>
-        Drag and drop your images or click to browse. We'll automatically optimize them for banner formats.
+        Drag and drop images, folders or ZIP archives, or click to browse. We'll automatically optimize them for banner formats.
       </Typography>
-      <Button
-        variant="contained"
-        component="label"
-        startIcon={<ImageIcon />}
-      >
-        Choose Files
-        <input
-          id="file-input"
-          type="file"
-          multiple
-          accept="image/*"
-          hidden
-          onChange={handleFileInput}
-        />
-      </Button>
+      <Box sx={{ display: 'flex', justifyContent: 'center', gap: 2 }}>
+        <Button
+          variant="contained"
+          component="label"
+          startIcon={<ImageIcon />}
+        >
+          Choose Files
+          <input
+            id="file-input"
+            type="file"
+            multiple
+            accept="image/*,.zip,application/zip"
+            hidden
+            onChange={handleFileInput}
+          />
+        </Button>
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={<FolderIcon />}
+        >
+          Choose Folder
+          {/* `webkitdirectory` is supported everywhere but missing from React's input props */}
+          <input
+            id="folder-input"
+            type="file"
+            hidden
+            onChange={handleFileInput}
+            {...{ webkitdirectory: '' }}
+          />
+        </Button>
+      </Box>
       <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
-        Supported formats: PNG, JPG, GIF, WebP, BMP
+        Supported formats: PNG, JPG, GIF, WebP, BMP, SVG; animated GIF, APNG and WebP stay animated.
+        Folder structure is kept for the ZIP download.
+        You can also paste a screenshot or copied image anywhere on the page.
       </Typography>
     </Paper>
   );
@@ -136,10 +318,14 @@ const getStatusIcon = (status: ProcessedFile['status']) => {
             return <ImageIcon />;
         case 'processing':
             return <CircularProgress size={24} color="inherit" />;
+        case 'paused':
+            return <PauseIcon />;
         case 'completed':
             return <CheckCircleIcon />;
         case 'error':
             return <ErrorIcon />;
+        case 'cancelled':
+            return <CancelIcon />;
     }
 };
 
@@ -149,25 +335,60 @@ const getStatusColor = (status: ProcessedFile['status']) => {
             return 'grey.500';
         case 'processing':
             return 'primary.main';
+        case 'paused':
+            return 'warning.main';
         case 'completed':
             return 'success.main';
         case 'error':
             return 'error.main';
+        case 'cancelled':
+            return 'grey.700';
     }
 };
 
 const FileProcessor: React.FC<{
   file: ProcessedFile;
+  defaultFitMode: FitMode;
+  defaultOutputType: OutputType;
+  defaultQuality: number;
+  templateFilename?: string;
+  hasNameCollision: boolean;
+  selected: boolean;
+  onSelectedChange: (fileId: string, selected: boolean) => void;
   onOutputFilenameChange: (fileId: string, newFilename: string) => void;
-}> = ({ file, onOutputFilenameChange }) => {
+  onOutputFilenameReset: (fileId: string) => void;
+  onFitModeChange: (fileId: string, fitMode: FitMode | undefined) => void;
+  onCropChange: (fileId: string, crop: CropRect | undefined, focalPoint: FocalPoint | undefined) => void;
+  onOutputSettingsChange: (fileId: string, changes: Pick<ProcessedFile, 'requestedOutputType' | 'quality'>) => void;
+  onCancel: (fileId: string) => void;
+  onRetry: (fileId: string) => void;
+  onFitAnimation: (fileId: string) => void;
+}> = ({
+  file, defaultFitMode, defaultOutputType, defaultQuality, templateFilename, hasNameCollision, selected, onSelectedChange,
+  onOutputFilenameChange, onOutputFilenameReset, onFitModeChange, onCropChange, onOutputSettingsChange, onCancel, onRetry,
+  onFitAnimation
+}) => {
+  const [cropEditorOpen, setCropEditorOpen] = useState(false);
   const formatSize = (bytes: number) => {
     return (bytes / 1024).toFixed(1) + ' KB';
   };
+  const fitMode = file.fitMode ?? defaultFitMode;
+  const outputType = file.outputType ?? file.animatedOutputType ?? file.requestedOutputType ?? defaultOutputType;
+  const filenameIssues = getFilenameIssues(file.outputFilename, outputType);
+  const canEditCrop = Boolean(file.selectedFormat && file.sourceWidth && file.sourceHeight);
+  const animationRules = file.selectedFormat?.animation;
+  const animationIssues = file.outputAnimation ? getAnimationIssues(file.outputAnimation, animationRules) : [];
 
   return (
     <Card>
       <CardContent>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Checkbox
+            checked={selected}
+            onChange={(e) => onSelectedChange(file.id, e.target.checked)}
+            inputProps={{ 'aria-label': `Select ${file.outputFilename}` }}
+            sx={{ m: -1 }}
+          />
           <Box sx={{
             width: 40,
             height: 40,
@@ -181,48 +402,208 @@ const FileProcessor: React.FC<{
             {getStatusIcon(file.status)}
           </Box>
           <Box sx={{ flex: 1, minWidth: 0 }}>
-            <Typography noWrap>{file.originalFile.name}</Typography>
+            <Typography noWrap>{file.sourcePath ?? file.originalFile.name}</Typography>
             <Typography variant="body2" color="text.secondary">
               {formatSize(file.originalSize)}
               {file.optimizedSize && ` → ${formatSize(file.optimizedSize)}`}
             </Typography>
           </Box>
+          <Chip label={fitModes.find(m => m.value === fitMode)?.label} size="small" variant="outlined" />
+          {(file.crop || file.focalPoint) && (
+            <Chip icon={<CropIcon />} label={file.crop ? 'Custom crop' : 'Focal point'} size="small" variant="outlined" />
+          )}
           {file.selectedFormat && (
             <Chip label={file.selectedFormat.name} size="small" />
           )}
+          {file.pixelRatio && <Chip label={`@${file.pixelRatio}x`} size="small" color="secondary" />}
+          {file.animation && (
+            <Chip
+              icon={<AnimationIcon />}
+              label={formatAnimation(file.outputAnimation ?? file.animation) + (file.animatedOutputType ? '' : ' · first frame only')}
+              size="small"
+              variant="outlined"
+            />
+          )}
         </Box>
 
         {file.status === 'queued' && (
           <Box>
-            <TextField
-              fullWidth
-              label="Output Filename"
-              value={file.outputFilename}
-              onChange={(e) => onOutputFilenameChange(file.id, e.target.value)}
-              variant="outlined"
-              size="small"
-              sx={{ mb: 1 }}
-            />
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <TextField
+                fullWidth
+                label="Output Filename"
+                value={file.outputFilename}
+                onChange={(e) => onOutputFilenameChange(file.id, e.target.value)}
+                onBlur={() => {
+                  const safeFilename = sanitizeFilename(file.outputFilename, outputType, getBaseName(file.originalFile.name));
+                  if (safeFilename !== file.outputFilename) onOutputFilenameChange(file.id, safeFilename);
+                }}
+                variant="outlined"
+                size="small"
+                error={hasNameCollision || filenameIssues.length > 0}
+                helperText={
+                  filenameIssues.length > 0 ? `${filenameIssues[0]}; fixed when you leave the field` :
+                  hasNameCollision ? 'Another output has the same name; it will be numbered in the ZIP' :
+                  file.filenameEdited && templateFilename && templateFilename !== file.outputFilename ? (
+                    <>
+                      Template gives {templateFilename}.{' '}
+                      <Link component="button" type="button" variant="caption" onClick={() => onOutputFilenameReset(file.id)}>
+                        Use it
+                      </Link>
+                    </>
+                  ) : undefined
+                }
+              />
+              <TextField
+                select
+                label="Fit"
+                value={file.fitMode ?? 'default'}
+                onChange={(e) => onFitModeChange(file.id, e.target.value === 'default' ? undefined : e.target.value as FitMode)}
+                size="small"
+                sx={{ minWidth: 160 }}
+              >
+                <MenuItem value="default">Default ({fitModes.find(m => m.value === defaultFitMode)?.label})</MenuItem>
+                {fitModes.map(mode => (
+                  <MenuItem key={mode.value} value={mode.value}>{mode.label}</MenuItem>
+                ))}
+              </TextField>
+              <Button
+                variant="outlined"
+                startIcon={<CropIcon />}
+                disabled={!canEditCrop}
+                onClick={() => setCropEditorOpen(true)}
+                sx={{ flexShrink: 0 }}
+              >
+                Edit Crop
+              </Button>
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <TextField
+                select
+                label="Output format"
+                value={file.requestedOutputType ?? 'default'}
+                onChange={(e) => onOutputSettingsChange(file.id, {
+                  requestedOutputType: e.target.value === 'default' ? undefined : e.target.value as OutputType
+                })}
+                disabled={Boolean(file.animatedOutputType)}
+                size="small"
+                sx={{ minWidth: 180 }}
+              >
+                <MenuItem value="default">
+                  {file.animatedOutputType
+                    ? animatedOutputTypes.find(t => t.value === file.animatedOutputType)?.label
+                    : `Default (${outputTypes.find(t => t.value === defaultOutputType)?.label})`}
+                </MenuItem>
+                {outputTypes.map(type => (
+                  <MenuItem key={type.value} value={type.value} disabled={!isOutputTypeSupported(type.value)}>
+                    {type.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Quality"
+                type="number"
+                value={file.quality ?? ''}
+                placeholder={`Default (${defaultQuality})`}
+                onChange={(e) => onOutputSettingsChange(file.id, {
+                  quality: e.target.value === '' ? undefined : Math.min(Number(e.target.value), 100)
+                })}
+                // Raised to the minimum only on blur, so typing a two-digit value isn't cut short
+                onBlur={() => {
+                  if (file.quality !== undefined && file.quality < MIN_QUALITY) {
+                    onOutputSettingsChange(file.id, { quality: MIN_QUALITY });
+                  }
+                }}
+                inputProps={{ min: MIN_QUALITY, max: 100 }}
+                // GIF palettes and WebP frames shrink with quality just like lossy stills
+                disabled={!file.animatedOutputType && !isLossyType(file.requestedOutputType ?? defaultOutputType)}
+                size="small"
+                InputLabelProps={{ shrink: true }}
+                sx={{ width: 140 }}
+              />
+            </Box>
             <Typography variant="caption" color="text.secondary">
               Ready to be optimized.
             </Typography>
+            {canEditCrop && (
+              <CropEditorDialog
+                open={cropEditorOpen}
+                file={file.originalFile}
+                sourceWidth={file.sourceWidth!}
+                sourceHeight={file.sourceHeight!}
+                targetWidth={file.selectedFormat!.width}
+                targetHeight={file.selectedFormat!.height}
+                targetName={file.selectedFormat!.name}
+                initialCrop={file.crop}
+                initialFocalPoint={file.focalPoint}
+                onClose={() => setCropEditorOpen(false)}
+                onSave={(crop, focalPoint) => onCropChange(file.id, crop, focalPoint)}
+              />
+            )}
           </Box>
         )}
         
-        {file.status === 'processing' && (
+        {(file.status === 'processing' || file.status === 'paused') && (
           <Box>
-            <LinearProgress variant="determinate" value={file.progress} />
-            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>Processing... {file.progress}%</Typography>
+            <LinearProgress variant="determinate" value={file.progress} color={file.status === 'paused' ? 'warning' : 'primary'} />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                {file.status === 'paused' ? 'Paused' : file.stage ? `${stageLabels[file.stage]}... ${file.progress}%` : 'Waiting...'}
+                {file.status === 'processing' && file.stageDetail && ` · ${file.stageDetail}`}
+              </Typography>
+              <Button size="small" color="inherit" startIcon={<CancelIcon />} onClick={() => onCancel(file.id)}>
+                Cancel
+              </Button>
+            </Box>
           </Box>
         )}
         
-        {file.status === 'error' && (
-          <Alert severity="error">{file.errorMessage}</Alert>
+        {(file.status === 'error' || file.status === 'cancelled') && (
+          <Alert
+            severity={file.status === 'error' ? 'error' : 'info'}
+            action={
+              <Button color="inherit" size="small" startIcon={<RetryIcon />} onClick={() => onRetry(file.id)}>
+                Retry
+              </Button>
+            }
+          >
+            {file.status === 'error' ? file.errorMessage : 'Processing was cancelled.'}
+          </Alert>
         )}
         
         {file.status === 'completed' && file.optimizedBlob && (
           <Box>
-            <Alert severity="success" icon={<ZapIcon />}>Optimized successfully</Alert>
+            <Alert severity="success" icon={<ZapIcon />}>
+              Optimized successfully
+              {file.finalQuality !== undefined && file.outputType && (
+                ` as ${getFileExtension(file.outputType).toUpperCase()}` +
+                (file.outputType === 'image/png' ? '' : ` at quality ${file.finalQuality}`)
+              )}
+            </Alert>
+            {file.budget && (
+              <Alert severity={file.budgetMet ? 'info' : 'warning'} sx={{ mt: 1 }}>
+                {file.budgetMet
+                  ? `Within the ${formatFileSize(file.budget)} budget`
+                  : `${formatSize(file.optimizedSize)} exceeds the ${formatFileSize(file.budget)} budget even at the lowest quality`}
+                {file.selectedFormat?.network && ` for ${file.selectedFormat.network}`}
+              </Alert>
+            )}
+            {file.outputAnimation && animationRules && (
+              <Alert
+                severity={animationIssues.length > 0 ? 'warning' : 'info'}
+                sx={{ mt: 1 }}
+                action={animationIssues.length > 0 && (
+                  <Button color="inherit" size="small" startIcon={<FixIcon />} onClick={() => onFitAnimation(file.id)}>
+                    Fix
+                  </Button>
+                )}
+              >
+                {animationIssues.length > 0
+                  ? `Breaks the ${file.selectedFormat!.network ?? file.selectedFormat!.name} animation limits: ${animationIssues.join('; ')}`
+                  : `Within the ${file.selectedFormat!.network ?? file.selectedFormat!.name} animation limits`}
+                {file.animationChanges && file.animationChanges.length > 0 && `. ${file.animationChanges.join('; ')}.`}
+              </Alert>
+            )}
             <Button
               fullWidth
               variant="contained"
@@ -230,14 +611,9 @@ const FileProcessor: React.FC<{
               startIcon={<DownloadIcon />}
               sx={{ mt: 2 }}
               onClick={() => {
-                const url = URL.createObjectURL(file.optimizedBlob!);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = file.outputFilename.toLowerCase();
-                document.body.appendChild(a);
-                a.click();
-                document.body.removeChild(a);
-                URL.revokeObjectURL(url);
+                // Browsers can't save into folders, so template folders become part of the name
+                const filename = sanitizeFilename(file.outputFilename, outputType, getBaseName(file.originalFile.name));
+                downloadBlob(file.optimizedBlob!, filename.replace(/\//g, '_'));
               }}
             >
               Download Optimized
@@ -249,18 +625,43 @@ const FileProcessor: React.FC<{
   );
 };
 
-const findBestFormat = (width: number, height: number): BannerFormat => {
-  const aspectRatio = width / height;
-  return bannerFormats.reduce((best, format) => {
-    const currentDiff = Math.abs(aspectRatio - format.aspectRatio);
-    const bestDiff = Math.abs(aspectRatio - best.aspectRatio);
-    return currentDiff < bestDiff ? format : best;
-  });
-};
-
 const BannerOptimizer: React.FC = () => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [files, setFiles] = useState<ProcessedFile[]>([]);
+  const [defaultFitMode, setDefaultFitMode] = useState<FitMode>('cover');
+  const [outputTypeSetting, setOutputTypeSetting] = useState<OutputTypeSetting>('auto');
+  const [animatedOutputSetting, setAnimatedOutputSetting] = useState<AnimatedOutputSetting>('auto');
+  const [fitAnimationsEnabled, setFitAnimationsEnabled] = useState(false);
+  const [defaultQuality, setDefaultQuality] = useState(DEFAULT_QUALITY);
+  const [globalBudgetKb, setGlobalBudgetKb] = useState('');
+  const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [campaign, setCampaign] = useState('');
+  const [exportLayout, setExportLayout] = useState<ExportLayout>('flat');
+  /** Largest ZIP part in MB; 0 keeps the whole export in one archive. */
+  const [zipVolumeMb, setZipVolumeMb] = useState(0);
+  const [zipProgress, setZipProgress] = useState<ZipProgress | null>(null);
+  const zipControllerRef = useRef<AbortController | null>(null);
+  const [batch, setBatch] = useState<{ ids: string[]; startedAt: number } | null>(null);
+  const [concurrency, setConcurrency] = useState(getDefaultConcurrency);
+  const [isPaused, setIsPaused] = useState(false);
+  const poolRef = useRef<WorkerPool | null>(null);
+  const schedulerRef = useRef<Scheduler>({ pending: [], active: new Map(), runners: 0, paused: false, resumeWaiters: [] });
+
+  useEffect(() => {
+    const pool = createWorkerPool(concurrency);
+    poolRef.current = pool;
+    return () => pool.terminate();
+  }, [concurrency]);
+  const [fanOutEnabled, setFanOutEnabled] = useState(false);
+  const [svgRetinaEnabled, setSvgRetinaEnabled] = useState(false);
+  const [fanOutSkippedIds, setFanOutSkippedIds] = useState<string[]>([]);
+  const [formatManagerOpen, setFormatManagerOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkRenameOpen, setBulkRenameOpen] = useState(false);
+  const {
+    formats, activeFormats, enabledPackIds, addFormat, updateFormat, removeFormat, resetFormats, togglePresetPack,
+    replaceFormats
+  } = useBannerFormats();
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
     open: false,
     message: '',
@@ -271,129 +672,472 @@ const BannerOptimizer: React.FC = () => {
     setSnackbar({ open: true, message, severity });
   }, []);
 
-  const optimizeImage = useCallback(async (file: File, quality: number): Promise<{ blob: Blob; size: number; format: BannerFormat }> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return reject(new Error('Canvas context not available'));
-
-      img.onload = () => {
-        const selectedFormat = findBestFormat(img.width, img.height);
-        canvas.width = selectedFormat.width;
-        canvas.height = selectedFormat.height;
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-        ctx.drawImage(img, 0, 0, selectedFormat.width, selectedFormat.height);
-        const outputType = ['image/jpeg', 'image/png', 'image/webp'].includes(file.type) ? file.type : 'image/jpeg';
-        canvas.toBlob((blob) => {
-          if (!blob) return reject(new Error('Failed to create optimized blob'));
-          resolve({ blob, size: blob.size, format: selectedFormat });
-        }, outputType, quality / 100);
-      };
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(file);
-    });
+  const handleOutputFilenameChange = useCallback((fileId: string, newFilename: string) => {
+    setFiles(prev => prev.map(f =>
+      f.id === fileId
+        ? { ...f, outputFilename: newFilename, filenameEdited: true }
+        : f
+    ));
   }, []);
 
-  const handleOutputFilenameChange = useCallback((fileId: string, newFilename: string) => {
+  const handleSelectedChange = useCallback((fileId: string, selected: boolean) => {
+    setSelectedIds(prev => selected ? [...prev, fileId] : prev.filter(id => id !== fileId));
+  }, []);
+
+  const handleBulkRename = useCallback((renames: { id: string; filename: string }[]) => {
+    const names = new Map(renames.map(({ id, filename }) => [id, filename]));
+    setFiles(prev => prev.map(f =>
+      names.has(f.id) && names.get(f.id) !== f.outputFilename
+        ? { ...f, outputFilename: names.get(f.id)!, filenameEdited: true }
+        : f
+    ));
+    showToast(`Renamed ${renames.length} file${renames.length === 1 ? '' : 's'}`, 'success');
+  }, [showToast]);
+
+  const handleOutputFilenameReset = useCallback((fileId: string) => {
     setFiles(prev => prev.map(f =>
       f.id === fileId
-        ? { ...f, outputFilename: newFilename }
+        ? { ...f, filenameEdited: false }
         : f
     ));
   }, []);
 
-  const addFilesToQueue = useCallback((newFiles: File[]) => {
-    const filesToQueue: ProcessedFile[] = newFiles.map(file => ({
-      id: Math.random().toString(36),
-      originalFile: file,
-      status: 'queued' as const,
-      progress: 0,
-      originalSize: file.size,
-      outputFilename: 'Loading...'
-    }));
+  const getTemplateFilename = useCallback((
+    file: ProcessedFile,
+    index: number,
+    outputType = resolveResultType(file, outputTypeSetting),
+    quality = file.quality ?? defaultQuality
+  ) => buildOutputFilename(file.originalFile.name, file.selectedFormat, outputType, filenameTemplate, {
+    campaign,
+    quality,
+    index,
+    hash: file.sourceHash,
+    pixelRatio: file.pixelRatio,
+  }), [campaign, defaultQuality, filenameTemplate, outputTypeSetting]);
 
-    setFiles(prev => [...prev, ...filesToQueue]);
+  // Queued files follow the template until renamed by hand; returning `prev` untouched avoids a render loop
+  useEffect(() => {
+    setFiles(prev => {
+      let changed = false;
+      const sources = prev.map(getSourceKey);
+      const next = prev.map(f => {
+        if (f.status !== 'queued' || f.filenameEdited || !f.selectedFormat) return f;
+        const outputFilename = getTemplateFilename(f, getSourceIndex(sources, getSourceKey(f)));
+        if (outputFilename === f.outputFilename) return f;
+        changed = true;
+        return { ...f, outputFilename };
+      });
+      return changed ? next : prev;
+    });
+  }, [files, getTemplateFilename]);
 
-    filesToQueue.forEach(fileToQueue => {
-      const img = new Image();
-      img.onload = () => {
-        const selectedFormat = findBestFormat(img.width, img.height);
-        const extension = getFileExtension(fileToQueue.originalFile.type);
-        const baseName = fileToQueue.originalFile.name.substring(0, fileToQueue.originalFile.name.lastIndexOf('.'));
-        const defaultFilename = `${baseName}_${selectedFormat.width}x${selectedFormat.height}.${extension}`.toLowerCase();
+  const collidingIds = useMemo(() => {
+    const paths = new Map<string, string[]>();
+    files.filter(f => f.status !== 'error' && f.status !== 'cancelled' && f.selectedFormat).forEach(f => {
+      const path = getExportPath(getExportEntry(f, f.outputType ?? resolveResultType(f, outputTypeSetting), campaign), exportLayout);
+      paths.set(path, [...(paths.get(path) ?? []), f.id]);
+    });
+    return new Set([...paths.values()].filter(ids => ids.length > 1).flat());
+  }, [campaign, exportLayout, files, outputTypeSetting]);
 
-        setFiles(prev => prev.map(f =>
-          f.id === fileToQueue.id
-            ? {
-                ...f,
-                selectedFormat: selectedFormat,
-                outputFilename: defaultFilename
-              }
-            : f
-        ));
-        URL.revokeObjectURL(img.src);
-      };
-      img.onerror = () => {
-        setFiles(prev => prev.map(f =>
-          f.id === fileToQueue.id
-            ? { ...f, status: 'error', errorMessage: 'Failed to read image dimensions.' }
-            : f
-        ));
-        URL.revokeObjectURL(img.src);
-      };
-      img.src = URL.createObjectURL(fileToQueue.originalFile);
+  // Queue order, and only files still present, so the rename preview numbers them as they appear
+  const selectedFiles = useMemo(() => files.filter(f => selectedIds.includes(f.id)), [files, selectedIds]);
+
+  const templateErrors = useMemo(() => getUnknownTemplateTokens(filenameTemplate), [filenameTemplate]);
+  const templatePreview = useMemo(() => {
+    const index = files.findIndex(f => f.selectedFormat);
+    if (index >= 0) return getTemplateFilename(files[index], getSourceIndex(files.map(getSourceKey), getSourceKey(files[index])));
+    return buildOutputFilename('hero.jpg', activeFormats[0] ?? { width: 728, height: 90 }, 'image/jpeg', filenameTemplate, {
+      campaign, quality: defaultQuality, index: 1, hash: '1a2b3c4d',
     });
+  }, [activeFormats, campaign, defaultQuality, files, filenameTemplate, getTemplateFilename]);
+
+  const handleFitModeChange = useCallback((fileId: string, fitMode: FitMode | undefined) => {
+    setFiles(prev => prev.map(f =>
+      f.id === fileId
+        ? { ...f, fitMode }
+        : f
+    ));
+  }, []);
+
+  const handleCropChange = useCallback((fileId: string, crop: CropRect | undefined, focalPoint: FocalPoint | undefined) => {
+    setFiles(prev => prev.map(f =>
+      f.id === fileId
+        ? { ...f, crop, focalPoint }
+        : f
+    ));
   }, []);
 
-  const startAllProcessing = useCallback(async () => {
-    const filesToProcess = files.filter(f => f.status === 'queued');
+  const handleOutputSettingsChange = useCallback((fileId: string, changes: Pick<ProcessedFile, 'requestedOutputType' | 'quality'>) => {
+    setFiles(prev => prev.map(f => {
+      if (f.id !== fileId) return f;
+      const updated = { ...f, ...changes };
+      return {
+        ...updated,
+        outputFilename: replaceExtension(f.outputFilename, resolveResultType(f, outputTypeSetting), resolveResultType(updated, outputTypeSetting))
+      };
+    }));
+  }, [outputTypeSetting]);
 
+  const handleOutputTypeSettingChange = useCallback((setting: OutputTypeSetting) => {
     setFiles(prev => prev.map(f =>
-      f.status === 'queued' ? { ...f, status: 'processing' } : f
+      f.status === 'queued'
+        ? { ...f, outputFilename: replaceExtension(f.outputFilename, resolveResultType(f, outputTypeSetting), resolveResultType(f, setting)) }
+        : f
     ));
+    setOutputTypeSetting(setting);
+  }, [outputTypeSetting]);
 
-    for (const fileToProcess of filesToProcess) {
-      try {
-        const progressInterval = setInterval(() => {
+  const handleAnimatedOutputSettingChange = useCallback((setting: AnimatedOutputSetting) => {
+    setFiles(prev => prev.map(f => {
+      if (f.status !== 'queued' || !f.animation) return f;
+      const updated = { ...f, animatedOutputType: getAnimatedOutputType(f.originalFile.type, setting) };
+      return {
+        ...updated,
+        outputFilename: replaceExtension(f.outputFilename, resolveResultType(f, outputTypeSetting), resolveResultType(updated, outputTypeSetting))
+      };
+    }));
+    setAnimatedOutputSetting(setting);
+  }, [outputTypeSetting]);
+
+  const addFilesToQueue = useCallback((inputs: InputFile[]) => {
+    if (activeFormats.length === 0) {
+      showToast('Enable at least one banner format before adding images', 'error');
+      return;
+    }
+    const fanOutFormats = fanOutEnabled ? activeFormats.filter(f => !fanOutSkippedIds.includes(f.id)) : [];
+    const filesToQueue: ProcessedFile[] = inputs.flatMap(({ file, path }) => {
+      const entry = {
+        originalFile: file,
+        sourcePath: path.includes('/') ? path : undefined,
+        status: 'queued' as const,
+        progress: 0,
+        originalSize: file.size,
+        outputFilename: 'Loading...'
+      };
+      const pixelRatios = svgRetinaEnabled && file.type === SVG_TYPE ? [undefined, 2] : [undefined];
+      if (fanOutFormats.length === 0 && pixelRatios.length === 1) {
+        return [{ ...entry, id: Math.random().toString(36) }];
+      }
+      const sourceId = Math.random().toString(36);
+      const formats = fanOutFormats.length > 0 ? fanOutFormats : [undefined];
+      return formats.flatMap(format => pixelRatios.map(pixelRatio => ({
+        ...entry,
+        id: Math.random().toString(36),
+        selectedFormat: format,
+        pixelRatio,
+        sourceId
+      })));
+    });
+
+    setFiles(prev => [...prev, ...filesToQueue]);
+    if (filesToQueue.some(f => f.sourcePath)) {
+      setExportLayout(prev => prev === 'flat' ? 'folders' : prev);
+    } else if (filesToQueue.some(f => f.sourceId)) {
+      // Fan-out outputs of one source go into a folder of their own
+      setExportLayout(prev => prev === 'flat' ? 'source' : prev);
+    }
+
+    inputs.forEach(({ file }) => {
+      file.arrayBuffer()
+        .then(getSourceHash)
+        .then(sourceHash => setFiles(prev => prev.map(f => f.originalFile === file ? { ...f, sourceHash } : f)))
+        .catch(() => undefined);
+    });
+
+    // Only these can hold an animation; everything else stays a still image
+    inputs.filter(({ file }) => ['image/gif', 'image/png', 'image/webp'].includes(file.type)).forEach(({ file }) => {
+      file.arrayBuffer()
+        .then(buffer => {
+          const animation = readAnimationInfo(new Uint8Array(buffer));
+          if (!animation) return;
+          const animatedOutputType = getAnimatedOutputType(file.type, animatedOutputSetting);
+          setFiles(prev => prev.map(f => f.originalFile === file ? { ...f, animation, animatedOutputType } : f));
+        })
+        .catch(() => undefined);
+    });
+
+    filesToQueue.forEach(fileToQueue => {
+      readSourceSize(fileToQueue.originalFile)
+        .then(({ width, height }) => {
+          const selectedFormat = fileToQueue.selectedFormat ?? findBestFormat(width, height, activeFormats);
+
+          // The name is filled in from the template once the format is known
           setFiles(prev => prev.map(f =>
-            f.id === fileToProcess.id
-              ? { ...f, progress: Math.min(f.progress + 10, 90) }
+            f.id === fileToQueue.id
+              ? {
+                  ...f,
+                  selectedFormat: selectedFormat,
+                  sourceWidth: width,
+                  sourceHeight: height
+                }
               : f
           ));
-        }, 200);
+        })
+        .catch((error: Error) => {
+          setFiles(prev => prev.map(f =>
+            f.id === fileToQueue.id
+              ? { ...f, status: 'error', errorMessage: error.message }
+              : f
+          ));
+        });
+    });
+  }, [activeFormats, animatedOutputSetting, fanOutEnabled, fanOutSkippedIds, showToast, svgRetinaEnabled]);
 
-        const result = await optimizeImage(fileToProcess.originalFile, 90);
-        clearInterval(progressInterval);
+  const toggleFanOutFormat = useCallback((formatId: string) => {
+    setFanOutSkippedIds(prev => prev.includes(formatId)
+      ? prev.filter(id => id !== formatId)
+      : [...prev, formatId]
+    );
+  }, []);
 
+  const fileGroups = useMemo(() => {
+    const groups: { key: string; sourceName: string; files: ProcessedFile[] }[] = [];
+    for (const file of files) {
+      const key = getSourceKey(file);
+      const group = groups.find(g => g.key === key);
+      if (group) {
+        group.files.push(file);
+      } else {
+        groups.push({ key, sourceName: file.sourcePath ?? file.originalFile.name, files: [file] });
+      }
+    }
+    return groups;
+  }, [files]);
+
+  const batchProgress = useMemo(() => {
+    if (!batch) return null;
+    const batchFiles = files.filter(f => batch.ids.includes(f.id));
+    if (batchFiles.every(f => f.status !== 'processing' && f.status !== 'paused')) return null;
+    const isOpen = (f: ProcessedFile) => f.status === 'processing' || f.status === 'paused';
+    const done = batchFiles.filter(f => !isOpen(f)).length;
+    const fraction = batchFiles.reduce((sum, f) => sum + (isOpen(f) ? f.progress : 100), 0) / (batchFiles.length * 100);
+    const elapsedSeconds = (Date.now() - batch.startedAt) / 1000;
+    return {
+      done,
+      total: batchFiles.length,
+      percent: fraction * 100,
+      etaSeconds: fraction > 0.02 ? (elapsedSeconds / fraction) * (1 - fraction) : undefined,
+    };
+  }, [batch, files]);
+
+  const processFile = useCallback(async (job: ProcessingJob) => {
+    const { file: fileToProcess, options, controller } = job;
+    try {
+      const result = await poolRef.current!.run(fileToProcess.originalFile, options, ({ stage, progress, detail }) => {
+        if (controller.signal.aborted) return;
         setFiles(prev => prev.map(f =>
           f.id === fileToProcess.id
-            ? {
-                ...f,
-                status: 'completed' as const,
-                progress: 100,
-                optimizedBlob: result.blob,
-                optimizedSize: result.size,
-                selectedFormat: result.format
-              }
-            : f
-        ));
-        showToast(`${fileToProcess.outputFilename} optimized successfully`, 'success');
-      } catch (error) {
-        setFiles(prev => prev.map(f =>
-          f.id === fileToProcess.id
-            ? {
-                ...f,
-                status: 'error' as const,
-                errorMessage: error instanceof Error ? error.message : 'Processing failed'
-              }
+            ? { ...f, stage, progress, stageDetail: detail }
             : f
         ));
-        showToast(`Failed to process ${fileToProcess.outputFilename}`, 'error');
+      }, controller.signal);
+      // The main-thread fallback can't stop a job half-way, so a cancelled one may still finish
+      if (controller.signal.aborted) return;
+
+      setFiles(prev => prev.map(f =>
+        f.id === fileToProcess.id
+          ? {
+              ...f,
+              status: 'completed' as const,
+              progress: 100,
+              stage: undefined,
+              stageDetail: undefined,
+              optimizedBlob: result.blob,
+              optimizedSize: result.size,
+              selectedFormat: result.format,
+              fitMode: options.fitMode,
+              outputType: result.type,
+              // Browsers that can't decode frames flatten the animation after all
+              animatedOutputType: result.animation ? f.animatedOutputType : undefined,
+              outputAnimation: result.animation,
+              animationChanges: result.animationChanges,
+              finalQuality: result.quality,
+              campaign: campaign.trim() || undefined,
+              budget: options.budget,
+              budgetMet: result.budgetMet,
+              // Template names are rendered again so `{quality}` reflects the size search
+              outputFilename: f.filenameEdited
+                ? sanitizeFilename(f.outputFilename, result.type, getBaseName(f.originalFile.name))
+                : getTemplateFilename(f, getSourceIndex(prev.map(getSourceKey), getSourceKey(f)), result.type, result.quality)
+            }
+          : f
+      ));
+      showToast(`${fileToProcess.outputFilename} optimized successfully`, 'success');
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      setFiles(prev => prev.map(f =>
+        f.id === fileToProcess.id
+          ? {
+              ...f,
+              status: 'error' as const,
+              stage: undefined,
+              stageDetail: undefined,
+              errorMessage: error instanceof Error ? error.message : 'Processing failed',
+              fitMode: options.fitMode
+            }
+          : f
+      ));
+      showToast(`Failed to process ${fileToProcess.outputFilename}`, 'error');
+    }
+  }, [campaign, getTemplateFilename, showToast]);
+
+  /** Runner loop: keeps pulling jobs until the queue is empty, idling while the batch is paused. */
+  const runQueue = useCallback(async () => {
+    const scheduler = schedulerRef.current;
+    scheduler.runners++;
+    try {
+      for (;;) {
+        if (scheduler.paused) {
+          await new Promise<void>(resolve => scheduler.resumeWaiters.push(resolve));
+          continue;
+        }
+        const job = scheduler.pending.shift();
+        if (!job) break;
+        scheduler.active.set(job.file.id, job.controller);
+        setFiles(prev => prev.map(f => f.id === job.file.id ? { ...f, status: 'processing' } : f));
+        await processFile(job);
+        scheduler.active.delete(job.file.id);
       }
+    } finally {
+      scheduler.runners--;
+    }
+  }, [processFile]);
+
+  const startProcessing = useCallback((filesToProcess: ProcessedFile[]) => {
+    if (filesToProcess.length === 0) return;
+    const scheduler = schedulerRef.current;
+    const globalBudget = Number(globalBudgetKb) > 0 ? Number(globalBudgetKb) * 1024 : undefined;
+
+    for (const file of filesToProcess) {
+      scheduler.pending.push({
+        file,
+        controller: new AbortController(),
+        options: {
+          outputType: resolveOutputType(file, outputTypeSetting),
+          quality: file.quality ?? defaultQuality,
+          fitMode: file.fitMode ?? defaultFitMode,
+          format: file.selectedFormat,
+          crop: file.crop,
+          focalPoint: file.focalPoint,
+          budget: file.selectedFormat?.maxFileSize ?? globalBudget,
+          pixelRatio: file.pixelRatio,
+          animatedOutputType: file.animatedOutputType,
+          fitAnimation: fitAnimationsEnabled || file.fitAnimation,
+        },
+      });
+    }
+
+    const ids = filesToProcess.map(f => f.id);
+    const status = scheduler.paused ? 'paused' as const : 'processing' as const;
+    setFiles(prev => prev.map(f =>
+      ids.includes(f.id)
+        ? { ...f, status, progress: 0, stage: undefined, stageDetail: undefined, errorMessage: undefined }
+        : f
+    ));
+    // Files added while a batch is still running join it, so the overall progress and ETA stay meaningful
+    setBatch(prev => prev && scheduler.runners > 0
+      ? { ...prev, ids: [...prev.ids, ...ids] }
+      : { ids, startedAt: Date.now() }
+    );
+
+    const runnersNeeded = Math.min(concurrency - scheduler.runners, scheduler.pending.length);
+    for (let i = 0; i < runnersNeeded; i++) {
+      runQueue();
+    }
+  }, [globalBudgetKb, outputTypeSetting, defaultQuality, defaultFitMode, fitAnimationsEnabled, concurrency, runQueue]);
+
+  const startAllProcessing = useCallback(() => {
+    startProcessing(files.filter(f => f.status === 'queued'));
+  }, [files, startProcessing]);
+
+  const pauseProcessing = useCallback(() => {
+    const scheduler = schedulerRef.current;
+    scheduler.paused = true;
+    setIsPaused(true);
+    const waitingIds = scheduler.pending.map(job => job.file.id);
+    setFiles(prev => prev.map(f => waitingIds.includes(f.id) ? { ...f, status: 'paused' } : f));
+  }, []);
+
+  const resumeProcessing = useCallback(() => {
+    const scheduler = schedulerRef.current;
+    scheduler.paused = false;
+    setIsPaused(false);
+    setFiles(prev => prev.map(f => f.status === 'paused' ? { ...f, status: 'processing' } : f));
+    scheduler.resumeWaiters.splice(0).forEach(resolve => resolve());
+  }, []);
+
+  const cancelFiles = useCallback((fileIds: string[]) => {
+    const scheduler = schedulerRef.current;
+    scheduler.pending = scheduler.pending.filter(job => !fileIds.includes(job.file.id));
+    fileIds.forEach(id => scheduler.active.get(id)?.abort());
+    setFiles(prev => prev.map(f =>
+      fileIds.includes(f.id) && (f.status === 'processing' || f.status === 'paused')
+        ? { ...f, status: 'cancelled', stage: undefined, stageDetail: undefined }
+        : f
+    ));
+  }, []);
+
+  const cancelAllProcessing = useCallback(() => {
+    cancelFiles(files.filter(f => f.status === 'processing' || f.status === 'paused').map(f => f.id));
+    // Wake idle runners so they see the empty queue and exit instead of waiting for a resume
+    resumeProcessing();
+  }, [files, cancelFiles, resumeProcessing]);
+
+  const retryFile = useCallback((fileId: string) => {
+    const file = files.find(f => f.id === fileId);
+    if (file) startProcessing([file]);
+  }, [files, startProcessing]);
+
+  const fitFileAnimation = useCallback((fileId: string) => {
+    const file = files.find(f => f.id === fileId);
+    if (!file) return;
+    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, fitAnimation: true } : f));
+    startProcessing([{ ...file, fitAnimation: true }]);
+  }, [files, startProcessing]);
+
+  const importConfig = useCallback(async (file: File) => {
+    let config: BannerConfig;
+    try {
+      config = parseBannerConfig(await file.text());
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not read the config file.', 'error');
+      return;
     }
-  }, [files, optimizeImage, showToast]);
+
+    const outputType = getConfigOutputType(config);
+    const outputTypeSupported = outputType === 'auto' || isOutputTypeSupported(outputType);
+    replaceFormats(getConfigFormats(config), config.presetPacks);
+    setDefaultFitMode(config.fitMode);
+    handleOutputTypeSettingChange(outputTypeSupported ? outputType : 'auto');
+    setDefaultQuality(config.quality);
+    setGlobalBudgetKb(config.budgetKb ? String(config.budgetKb) : '');
+    setFanOutEnabled(config.fanOut);
+    setFanOutSkippedIds([]);
+    setFilenameTemplate(config.filenameTemplate);
+    setCampaign(config.campaign ?? '');
+    showToast(
+      outputTypeSupported
+        ? `Loaded settings from ${file.name}`
+        : `Loaded settings from ${file.name}, but this browser can't encode ${config.outputType.toUpperCase()}, so outputs keep the input type`,
+      'success'
+    );
+  }, [handleOutputTypeSettingChange, replaceFormats, showToast]);
+
+  const exportConfig = useCallback(() => {
+    const config = createBannerConfig({
+      formats,
+      enabledPackIds,
+      fitMode: defaultFitMode,
+      outputType: outputTypeSetting,
+      quality: defaultQuality,
+      budgetKb: Number(globalBudgetKb) > 0 ? Number(globalBudgetKb) : undefined,
+      fanOut: fanOutEnabled,
+      filenameTemplate,
+      campaign: campaign.trim() || undefined,
+    });
+    downloadBlob(new Blob([serializeBannerConfig(config)], { type: 'application/json' }), CONFIG_FILENAME);
+  }, [campaign, defaultFitMode, defaultQuality, enabledPackIds, fanOutEnabled, filenameTemplate, formats, globalBudgetKb, outputTypeSetting]);
 
   const downloadAllFiles = useCallback(async () => {
     const completedFiles = files.filter(f => f.status === 'completed' && f.optimizedBlob);
@@ -402,28 +1146,53 @@ const BannerOptimizer: React.FC = () => {
       return;
     }
 
-    const zip = new JSZip();
-    for (const file of completedFiles) {
-      if (file.optimizedBlob && file.selectedFormat) {
-        zip.file(file.outputFilename.toLowerCase(), file.optimizedBlob);
-      }
-    }
+    const manifest = splitExportVolumes(
+      createExportManifest(completedFiles.map(file => getExportEntry(file, file.outputType!)), exportLayout),
+      zipVolumeMb > 0 ? zipVolumeMb * 1024 * 1024 : undefined
+    );
+    // Every part carries the full manifest, so any one of them says where each file went
+    const manifestEntries = [
+      { path: EXPORT_MANIFEST_FILENAME, data: `${JSON.stringify(manifest, null, 2)}\n` },
+      { path: EXPORT_CSV_FILENAME, data: exportManifestToCsv(manifest) },
+    ];
+    const filename = `optimized_banners_${new Date().toISOString().split('T')[0]}.zip`;
+    const volumes = Array.from({ length: manifest.volumes }, (_, v) => ({
+      filename: getVolumeFilename(filename, v + 1, manifest.volumes),
+      entries: [
+        ...completedFiles
+          .map((file, i) => ({ path: manifest.files[i].path, data: file.optimizedBlob!, volume: manifest.files[i].volume }))
+          .filter(entry => entry.volume === v + 1),
+        ...manifestEntries,
+      ],
+    }));
 
+    const controller = new AbortController();
+    zipControllerRef.current = controller;
+    setZipProgress({ volume: 1, volumes: manifest.volumes, percent: 0 });
     try {
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(zipBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `optimized_banners_${new Date().toISOString().split('T')[0]}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      showToast(`Downloaded ${completedFiles.length} optimized files`, 'success');
+      const destination = supportsFileSystemAccess()
+        ? await pickDiskDestination(filename, manifest.volumes)
+        : createBlobDestination(downloadBlob);
+      // Chunks arrive every few KB; re-rendering on each one would stall the page
+      let shownPercent = 0;
+      await writeZipVolumes(volumes, destination, progress => {
+        if (Math.floor(progress.percent) === shownPercent) return;
+        shownPercent = Math.floor(progress.percent);
+        setZipProgress(progress);
+      }, controller.signal);
+      showToast(
+        manifest.volumes > 1
+          ? `Saved ${completedFiles.length} optimized files in ${manifest.volumes} ZIP parts`
+          : `Downloaded ${completedFiles.length} optimized files`,
+        'success'
+      );
     } catch (error) {
-      showToast("Could not create the ZIP file.", 'error');
+      if (!isAbortError(error)) showToast("Could not create the ZIP file.", 'error');
+    } finally {
+      zipControllerRef.current = null;
+      setZipProgress(null);
     }
-  }, [files, showToast]);
+  }, [exportLayout, files, showToast, zipVolumeMb]);
 
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
@@ -438,14 +1207,53 @@ const BannerOptimizer: React.FC = () => {
         </Typography>
       </Box>
 
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h5">Banner Formats</Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant="text" component="label" startIcon={<ImportIcon />}>
+            Import Config
+            <input
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importConfig(file);
+                e.target.value = '';
+              }}
+            />
+          </Button>
+          <Button variant="text" startIcon={<ExportIcon />} onClick={exportConfig}>
+            Export Config
+          </Button>
+          <Button variant="outlined" startIcon={<TuneIcon />} onClick={() => setFormatManagerOpen(true)}>
+            Manage Formats
+          </Button>
+        </Box>
+      </Box>
       <Grid container spacing={2} sx={{ mb: 4 }}>
-        {bannerFormats.map((format) => (
-          <Grid item xs={12} sm={6} md={4} key={format.name}>
+        {activeFormats.map((format) => (
+          <Grid item xs={12} sm={6} md={4} key={format.id}>
             <Card sx={{ textAlign: 'center' }}>
               <CardHeader title={format.name} subheader={format.useCase} />
               <CardContent>
                 <Typography variant="h4" color="primary">{format.width}×{format.height}</Typography>
                 <Typography variant="body2" color="text.secondary">Ratio: {format.aspectRatio.toFixed(2)}:1</Typography>
+                {(format.network || format.maxFileSize) && (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: 1, mt: 1 }}>
+                    {format.network && <Chip label={format.network} size="small" variant="outlined" />}
+                    {format.maxFileSize && <Chip label={`Max ${formatFileSize(format.maxFileSize)}`} size="small" variant="outlined" />}
+                    {format.animation && (
+                      <Chip
+                        icon={<AnimationIcon />}
+                        label={formatAnimationRules(format.animation)}
+                        title="Animation limits: running time with loops, loops, frame rate"
+                        size="small"
+                        variant="outlined"
+                      />
+                    )}
+                  </Box>
+                )}
               </CardContent>
             </Card>
           </Grid>
@@ -461,13 +1269,187 @@ const BannerOptimizer: React.FC = () => {
         />
       </Box>
 
+      <Paper variant="outlined" sx={{ p: 2, mb: 4, display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+        <Typography variant="subtitle1">Fit mode</Typography>
+        <ToggleButtonGroup
+          value={defaultFitMode}
+          exclusive
+          size="small"
+          onChange={(_, value: FitMode | null) => value && setDefaultFitMode(value)}
+        >
+          {fitModes.map(mode => (
+            <ToggleButton key={mode.value} value={mode.value} title={mode.description}>
+              {mode.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Typography variant="body2" color="text.secondary">
+          {fitModes.find(m => m.value === defaultFitMode)?.description}. Can be overridden per file.
+        </Typography>
+        <Box sx={{ flexBasis: '100%' }} />
+        <TextField
+          select
+          label="Output format"
+          value={outputTypeSetting}
+          onChange={(e) => handleOutputTypeSettingChange(e.target.value as OutputTypeSetting)}
+          size="small"
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value="auto">Same as input</MenuItem>
+          {outputTypes.map(type => (
+            <MenuItem key={type.value} value={type.value} disabled={!isOutputTypeSupported(type.value)}>
+              {type.label}{!isOutputTypeSupported(type.value) && ' (not supported by this browser)'}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Typography variant="subtitle1">Quality</Typography>
+        <Slider
+          value={defaultQuality}
+          min={MIN_QUALITY}
+          max={100}
+          onChange={(_, value) => setDefaultQuality(value as number)}
+          valueLabelDisplay="auto"
+          disabled={outputTypeSetting === 'image/png'}
+          sx={{ width: 200 }}
+        />
+        <Typography variant="body2" color="text.secondary">{defaultQuality}</Typography>
+        <Box sx={{ flexBasis: '100%' }} />
+        <TextField
+          select
+          label="Animated inputs"
+          value={animatedOutputSetting}
+          onChange={(e) => handleAnimatedOutputSettingChange(e.target.value as AnimatedOutputSetting)}
+          size="small"
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="auto">Keep animation</MenuItem>
+          {animatedOutputTypes.map(type => (
+            <MenuItem key={type.value} value={type.value}>{type.label}</MenuItem>
+          ))}
+          <MenuItem value="still">First frame only</MenuItem>
+        </TextField>
+        <Typography variant="body2" color="text.secondary">
+          {supportsAnimatedPipeline()
+            ? 'Animated GIF, APNG and WebP inputs are resized frame by frame. Kept animations stay GIF, or become animated WebP.'
+            : 'This browser can\'t decode animation frames, so animated inputs are flattened to their first frame.'}
+        </Typography>
+        <FormControlLabel
+          control={<Switch checked={fitAnimationsEnabled} onChange={(e) => setFitAnimationsEnabled(e.target.checked)} />}
+          label="Fix animations that break network limits"
+          title="Drops frames to the allowed frame rate, caps loops and trims running time to the format's animation limits"
+        />
+        <Box sx={{ flexBasis: '100%' }} />
+        <TextField
+          label="Size budget (KB)"
+          type="number"
+          size="small"
+          value={globalBudgetKb}
+          onChange={(e) => setGlobalBudgetKb(e.target.value)}
+          placeholder="No limit"
+          sx={{ width: 180 }}
+        />
+        <Typography variant="body2" color="text.secondary">
+          Quality is lowered until each output fits. Formats with their own limit use that instead.
+        </Typography>
+        <Box sx={{ flexBasis: '100%' }} />
+        <TextField
+          label="Filename template"
+          size="small"
+          value={filenameTemplate}
+          onChange={(e) => setFilenameTemplate(e.target.value)}
+          error={templateErrors.length > 0}
+          helperText={templateErrors.length > 0
+            ? `Unknown token${templateErrors.length > 1 ? 's' : ''}: ${templateErrors.map(token => `{${token}}`).join(', ')}`
+            : `Preview: ${templatePreview}`}
+          sx={{ minWidth: 320 }}
+        />
+        <TextField
+          label="Campaign"
+          size="small"
+          value={campaign}
+          onChange={(e) => setCampaign(e.target.value)}
+          placeholder="Fills {campaign}"
+          sx={{ width: 200 }}
+        />
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+          {filenameTokens.map(({ token, description }) => (
+            <Chip
+              key={token}
+              label={`{${token}}`}
+              title={description}
+              size="small"
+              variant="outlined"
+              onClick={() => setFilenameTemplate(prev => `${prev}{${token}}`)}
+            />
+          ))}
+        </Box>
+        <Box sx={{ flexBasis: '100%' }} />
+        <TextField
+          select
+          label="Parallel jobs"
+          value={concurrency}
+          onChange={(e) => setConcurrency(Number(e.target.value))}
+          disabled={files.some(f => f.status === 'processing' || f.status === 'paused')}
+          size="small"
+          sx={{ minWidth: 140 }}
+        >
+          {[1, 2, 3, 4, 6, 8].map(n => (
+            <MenuItem key={n} value={n}>{n}</MenuItem>
+          ))}
+        </TextField>
+        <Typography variant="body2" color="text.secondary">
+          {!supportsOffscreenPipeline()
+            ? 'This browser lacks OffscreenCanvas, so images are processed on the main thread.'
+            : 'Images are processed in background workers.'}
+        </Typography>
+        <Box sx={{ flexBasis: '100%' }} />
+        <FormControlLabel
+          control={<Switch checked={svgRetinaEnabled} onChange={(e) => setSvgRetinaEnabled(e.target.checked)} />}
+          label="Also render SVGs at @2x"
+        />
+        <FormControlLabel
+          control={<Switch checked={fanOutEnabled} onChange={(e) => setFanOutEnabled(e.target.checked)} />}
+          label="Fan-out: render every selected size"
+        />
+        {activeFormats.map(format => (
+          <Chip
+            key={format.id}
+            label={`${format.width}×${format.height}`}
+            size="small"
+            disabled={!fanOutEnabled}
+            color={fanOutSkippedIds.includes(format.id) ? 'default' : 'primary'}
+            variant={fanOutSkippedIds.includes(format.id) ? 'outlined' : 'filled'}
+            onClick={() => toggleFanOutFormat(format.id)}
+          />
+        ))}
+      </Paper>
+
       {files.length > 0 && (
         <Box>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
             <Typography variant="h5">
               {files.some(f => f.status === 'queued') ? 'Files Queue' : 'Processing Results'}
             </Typography>
-            <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={selectedFiles.length === files.length}
+                    indeterminate={selectedFiles.length > 0 && selectedFiles.length < files.length}
+                    onChange={(e) => setSelectedIds(e.target.checked ? files.map(f => f.id) : [])}
+                  />
+                }
+                label="Select all"
+              />
+              <Button
+                onClick={() => setBulkRenameOpen(true)}
+                variant="outlined"
+                startIcon={<RenameIcon />}
+                disabled={selectedFiles.length === 0}
+                sx={{ mr: 2 }}
+              >
+                Rename ({selectedFiles.length})
+              </Button>
               {files.some(f => f.status === 'queued') && (
                 <Button
                   onClick={startAllProcessing}
@@ -478,11 +1460,37 @@ const BannerOptimizer: React.FC = () => {
                   Optimize All ({files.filter(f => f.status === 'queued').length})
                 </Button>
               )}
+              {files.filter(f => f.status === 'completed').length > 1 && (
+                <TextField
+                  select
+                  label="ZIP layout"
+                  value={exportLayout}
+                  onChange={(e) => setExportLayout(e.target.value as ExportLayout)}
+                  size="small"
+                  sx={{ ml: 2, minWidth: 200 }}
+                >
+                  {exportLayouts.map(layout => (
+                    <MenuItem key={layout.value} value={layout.value}>{layout.label}</MenuItem>
+                  ))}
+                </TextField>
+              )}
+              {files.filter(f => f.status === 'completed').length > 1 && (
+                <TextField
+                  label="Split ZIP at (MB)"
+                  type="number"
+                  value={zipVolumeMb || ''}
+                  placeholder="No limit"
+                  onChange={(e) => setZipVolumeMb(Math.max(0, Number(e.target.value) || 0))}
+                  size="small"
+                  sx={{ ml: 2, width: 150 }}
+                />
+              )}
               {files.filter(f => f.status === 'completed').length > 1 && (
                 <Button
                   onClick={downloadAllFiles}
                   variant="contained"
                   startIcon={<ArchiveIcon />}
+                  disabled={Boolean(zipProgress)}
                   sx={{ ml: 2 }}
                 >
                   Download All ({files.filter(f => f.status === 'completed').length})
@@ -490,16 +1498,118 @@ const BannerOptimizer: React.FC = () => {
               )}
             </Box>
           </Box>
+          {collidingIds.size > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {collidingIds.size} outputs share a name, so the ZIP will number them (-2, -3, ...).
+              Rename them, or add {'{index}'} or {'{hash}'} to the filename template.
+            </Alert>
+          )}
+          {zipProgress && (
+            <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1, gap: 2 }}>
+                <Typography variant="body2">
+                  {zipProgress.volumes > 1 ? `Writing ZIP part ${zipProgress.volume} of ${zipProgress.volumes}` : 'Writing ZIP'}
+                  {` (${Math.round(zipProgress.percent)}%)`}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" noWrap>{zipProgress.currentFile}</Typography>
+              </Box>
+              <LinearProgress variant="determinate" value={zipProgress.percent} />
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+                <Button size="small" color="error" startIcon={<CancelIcon />} onClick={() => zipControllerRef.current?.abort()}>
+                  Cancel
+                </Button>
+              </Box>
+            </Paper>
+          )}
+          {batchProgress && (
+            <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="body2">
+                  {batchProgress.done} of {batchProgress.total} files processed ({Math.round(batchProgress.percent)}%)
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {isPaused
+                    ? 'Paused — files already processing will finish'
+                    : batchProgress.etaSeconds !== undefined ? `About ${formatDuration(batchProgress.etaSeconds)} remaining` : 'Estimating time remaining...'}
+                </Typography>
+              </Box>
+              <LinearProgress variant="determinate" value={batchProgress.percent} color={isPaused ? 'warning' : 'primary'} />
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+                {isPaused ? (
+                  <Button size="small" startIcon={<ResumeIcon />} onClick={resumeProcessing}>Resume</Button>
+                ) : (
+                  <Button size="small" startIcon={<PauseIcon />} onClick={pauseProcessing}>Pause</Button>
+                )}
+                <Button size="small" color="error" startIcon={<CancelIcon />} onClick={cancelAllProcessing}>Cancel All</Button>
+              </Box>
+            </Paper>
+          )}
           <Grid container spacing={2}>
-            {files.map((file) => (
-              <Grid item xs={12} key={file.id}>
-                <FileProcessor file={file} onOutputFilenameChange={handleOutputFilenameChange} />
-              </Grid>
-            ))}
+            {fileGroups.map((group) => {
+              const cards = group.files.map((file) => (
+                <FileProcessor
+                  key={file.id}
+                  file={file}
+                  defaultFitMode={defaultFitMode}
+                  defaultOutputType={resolveOutputType({ ...file, requestedOutputType: undefined }, outputTypeSetting)}
+                  defaultQuality={defaultQuality}
+                  templateFilename={file.selectedFormat ? getTemplateFilename(file, files.indexOf(file) + 1) : undefined}
+                  hasNameCollision={collidingIds.has(file.id)}
+                  selected={selectedIds.includes(file.id)}
+                  onSelectedChange={handleSelectedChange}
+                  onOutputFilenameChange={handleOutputFilenameChange}
+                  onOutputFilenameReset={handleOutputFilenameReset}
+                  onFitModeChange={handleFitModeChange}
+                  onCropChange={handleCropChange}
+                  onOutputSettingsChange={handleOutputSettingsChange}
+                  onCancel={(fileId) => cancelFiles([fileId])}
+                  onRetry={retryFile}
+                  onFitAnimation={fitFileAnimation}
+                />
+              ));
+              return (
+                <Grid item xs={12} key={group.key}>
+                  {group.files[0].sourceId ? (
+                    <Paper variant="outlined" sx={{ p: 2 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                        <FanOutIcon color="primary" />
+                        <Typography noWrap sx={{ flex: 1 }}>{group.sourceName}</Typography>
+                        <Chip
+                          label={`${group.files.filter(f => f.status === 'completed').length}/${group.files.length} sizes`}
+                          size="small"
+                        />
+                      </Box>
+                      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pl: 2 }}>
+                        {cards}
+                      </Box>
+                    </Paper>
+                  ) : cards}
+                </Grid>
+              );
+            })}
           </Grid>
         </Box>
       )}
 
+      <FormatManagerDialog
+        open={formatManagerOpen}
+        formats={formats}
+        onClose={() => setFormatManagerOpen(false)}
+        onAdd={addFormat}
+        onUpdate={updateFormat}
+        onRemove={removeFormat}
+        onReset={resetFormats}
+        enabledPackIds={enabledPackIds}
+        onTogglePack={togglePresetPack}
+      />
+
+      <BulkRenameDialog
+        open={bulkRenameOpen}
+        files={selectedFiles.map(f => ({ id: f.id, filename: f.outputFilename }))}
+        onClose={() => setBulkRenameOpen(false)}
+        onApply={handleBulkRename}
+      />
+
       <Snackbar
         open={snackbar.open}
         autoHideDuration={6000}
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, TextField, MenuItem,
+  FormControlLabel, Switch, Checkbox, Table, TableHead, TableBody, TableRow, TableCell, Alert
+} from '@mui/material';
+import { ArrowForward as ArrowIcon } from '@mui/icons-material';
+import { caseTransforms, defaultRenameOptions, renameFilenames, type CaseTransform, type RenameOptions } from '@/core';
+
+const BulkRenameDialog: React.FC<{
+  open: boolean;
+  files: { id: string; filename: string }[];
+  onClose: () => void;
+  onApply: (renames: { id: string; filename: string }[]) => void;
+}> = ({ open, files, onClose, onApply }) => {
+  const [options, setOptions] = useState<RenameOptions>(defaultRenameOptions);
+
+  useEffect(() => {
+    if (open) setOptions(defaultRenameOptions);
+  }, [open]);
+
+  const update = (changes: Partial<RenameOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const preview = useMemo(() => {
+    try {
+      return { names: renameFilenames(files.map(f => f.filename), options), error: null };
+    } catch (error) {
+      return { names: files.map(f => f.filename), error: error instanceof Error ? error.message : 'Invalid rename' };
+    }
+  }, [files, options]);
+
+  const duplicates = useMemo(() => {
+    const counts = new Map<string, number>();
+    preview.names.forEach(name => counts.set(name.toLowerCase(), (counts.get(name.toLowerCase()) ?? 0) + 1));
+    return new Set(preview.names.filter(name => counts.get(name.toLowerCase())! > 1));
+  }, [preview.names]);
+
+  const changedCount = preview.names.filter((name, i) => name !== files[i].filename).length;
+  const hasEmptyName = preview.names.some(name => !name.replace(/\.[^./]*$/, '').trim());
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Rename {files.length} file{files.length === 1 ? '' : 's'}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mt: 1, mb: 2 }}>
+          <TextField
+            label="Find"
+            size="small"
+            value={options.find}
+            error={Boolean(preview.error)}
+            onChange={(e) => update({ find: e.target.value })}
+            sx={{ flex: 1, minWidth: 180 }}
+          />
+          <TextField
+            label="Replace with"
+            size="small"
+            value={options.replace}
+            placeholder={options.useRegex ? 'Use $1 for groups' : ''}
+            onChange={(e) => update({ replace: e.target.value })}
+            sx={{ flex: 1, minWidth: 180 }}
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={options.useRegex} onChange={(e) => update({ useRegex: e.target.checked })} />}
+            label="Regex"
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={options.matchCase} onChange={(e) => update({ matchCase: e.target.checked })} />}
+            label="Match case"
+          />
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+          <TextField
+            label="Prefix"
+            size="small"
+            value={options.prefix}
+            onChange={(e) => update({ prefix: e.target.value })}
+            sx={{ width: 160 }}
+          />
+          <TextField
+            label="Suffix"
+            size="small"
+            value={options.suffix}
+            onChange={(e) => update({ suffix: e.target.value })}
+            sx={{ width: 160 }}
+          />
+          <TextField
+            select
+            label="Case"
+            size="small"
+            value={options.caseTransform}
+            onChange={(e) => update({ caseTransform: e.target.value as CaseTransform })}
+            sx={{ minWidth: 160 }}
+          >
+            {caseTransforms.map(transform => (
+              <MenuItem key={transform.value} value={transform.value}>{transform.label}</MenuItem>
+            ))}
+          </TextField>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+          <FormControlLabel
+            control={<Switch checked={options.numbering} onChange={(e) => update({ numbering: e.target.checked })} />}
+            label="Number sequentially"
+          />
+          <TextField
+            label="Start at"
+            size="small"
+            type="number"
+            value={options.numberStart}
+            disabled={!options.numbering}
+            onChange={(e) => update({ numberStart: Math.max(0, Math.floor(Number(e.target.value))) })}
+            sx={{ width: 100 }}
+          />
+          <TextField
+            label="Digits"
+            size="small"
+            type="number"
+            value={options.numberPadding}
+            disabled={!options.numbering}
+            onChange={(e) => update({ numberPadding: Math.min(6, Math.max(1, Math.floor(Number(e.target.value)))) })}
+            sx={{ width: 90 }}
+          />
+          <TextField
+            label="Separator"
+            size="small"
+            value={options.numberSeparator}
+            disabled={!options.numbering}
+            onChange={(e) => update({ numberSeparator: e.target.value })}
+            sx={{ width: 100 }}
+          />
+          <TextField
+            select
+            label="Position"
+            size="small"
+            value={options.numberPosition}
+            disabled={!options.numbering}
+            onChange={(e) => update({ numberPosition: e.target.value as RenameOptions['numberPosition'] })}
+            sx={{ minWidth: 120 }}
+          >
+            <MenuItem value="prefix">Before</MenuItem>
+            <MenuItem value="suffix">After</MenuItem>
+          </TextField>
+        </Box>
+
+        {preview.error && <Alert severity="error" sx={{ mb: 2 }}>{preview.error}</Alert>}
+        {!preview.error && duplicates.size > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Some new names are identical. Turn on numbering or adjust the rules to keep them apart.
+          </Alert>
+        )}
+
+        <Typography variant="subtitle1" sx={{ mb: 1 }}>
+          Preview ({changedCount} of {files.length} change)
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Current name</TableCell>
+              <TableCell padding="none" />
+              <TableCell>New name</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {files.map((file, i) => (
+              <TableRow key={file.id}>
+                <TableCell sx={{ wordBreak: 'break-all' }}>{file.filename}</TableCell>
+                <TableCell padding="none"><ArrowIcon fontSize="small" color="action" /></TableCell>
+                <TableCell
+                  sx={{
+                    wordBreak: 'break-all',
+                    fontWeight: preview.names[i] !== file.filename ? 'bold' : undefined,
+                    color: duplicates.has(preview.names[i]) ? 'warning.main' : undefined,
+                  }}
+                >
+                  {preview.names[i]}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          disabled={Boolean(preview.error) || changedCount === 0 || hasEmptyName}
+          onClick={() => {
+            onApply(files.map((file, i) => ({ id: file.id, filename: preview.names[i] })));
+            onClose();
+          }}
+        >
+          Rename
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BulkRenameDialog;
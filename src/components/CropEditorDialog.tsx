@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Slider,
+  ToggleButton, ToggleButtonGroup
+} from '@mui/material';
+import {
+  OpenWith as MoveIcon,
+  CenterFocusStrong as FocusIcon,
+} from '@mui/icons-material';
+import { clampCrop, getCoverCrop, type CropRect, type FocalPoint } from '@/core';
+import { drawBanner } from '@/lib/canvas';
+
+const MAX_VIEW_WIDTH = 720;
+const MAX_VIEW_HEIGHT = 420;
+const MAX_ZOOM = 8;
+
+type EditorMode = 'crop' | 'focus';
+
+const CropEditorDialog: React.FC<{
+  open: boolean;
+  file: File;
+  sourceWidth: number;
+  sourceHeight: number;
+  targetWidth: number;
+  targetHeight: number;
+  targetName: string;
+  initialCrop?: CropRect;
+  initialFocalPoint?: FocalPoint;
+  onClose: () => void;
+  onSave: (crop: CropRect | undefined, focalPoint: FocalPoint | undefined) => void;
+}> = ({
+  open, file, sourceWidth, sourceHeight, targetWidth, targetHeight, targetName,
+  initialCrop, initialFocalPoint, onClose, onSave
+}) => {
+  const [mode, setMode] = useState<EditorMode>('crop');
+  const [crop, setCrop] = useState<CropRect>(() =>
+    initialCrop ?? getCoverCrop(sourceWidth, sourceHeight, targetWidth, targetHeight, initialFocalPoint)
+  );
+  const [focalPoint, setFocalPoint] = useState<FocalPoint | undefined>(initialFocalPoint);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: CropRect } | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const imageUrl = useMemo(() => (open ? URL.createObjectURL(file) : null), [file, open]);
+
+  useEffect(() => {
+    if (!imageUrl) return;
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = imageUrl;
+    return () => {
+      setImage(null);
+      URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (open) {
+      setCrop(initialCrop ?? getCoverCrop(sourceWidth, sourceHeight, targetWidth, targetHeight, initialFocalPoint));
+      setFocalPoint(initialFocalPoint);
+    }
+  }, [open, initialCrop, initialFocalPoint, sourceWidth, sourceHeight, targetWidth, targetHeight]);
+
+  // The preview goes through the same drawBanner call as the encoder, so it is pixel-identical to the output
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext('2d');
+    if (!ctx || !image) return;
+    drawBanner(ctx, image, sourceWidth, sourceHeight, 'cover', { crop });
+  }, [image, crop, sourceWidth, sourceHeight]);
+
+  const viewScale = Math.min(MAX_VIEW_WIDTH / sourceWidth, MAX_VIEW_HEIGHT / sourceHeight, 1);
+  const maxCrop = getCoverCrop(sourceWidth, sourceHeight, targetWidth, targetHeight);
+  const zoom = maxCrop.width / crop.width;
+
+  const handleZoomChange = useCallback((newZoom: number) => {
+    setCrop(prev => {
+      const width = maxCrop.width / newZoom;
+      const height = maxCrop.height / newZoom;
+      return clampCrop({
+        x: prev.x + (prev.width - width) / 2,
+        y: prev.y + (prev.height - height) / 2,
+        width,
+        height,
+      }, sourceWidth, sourceHeight);
+    });
+  }, [maxCrop.width, maxCrop.height, sourceWidth, sourceHeight]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode !== 'crop') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    setCrop(clampCrop({
+      ...start.crop,
+      x: start.crop.x + (e.clientX - start.pointerX) / viewScale,
+      y: start.crop.y + (e.clientY - start.pointerY) / viewScale,
+    }, sourceWidth, sourceHeight));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (mode !== 'focus') return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const point = {
+      x: Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - bounds.top) / bounds.height, 0), 1),
+    };
+    setFocalPoint(point);
+    setCrop(getCoverCrop(sourceWidth, sourceHeight, targetWidth, targetHeight, point, zoom));
+  };
+
+  // Going back to the default crop clears it, so the file's own fit mode applies again
+  const handleReset = () => {
+    onSave(undefined, undefined);
+    onClose();
+  };
+
+  const handleApply = () => {
+    const isDefaultCrop = !focalPoint && (['x', 'y', 'width', 'height'] as const).every(key => crop[key] === maxCrop[key]);
+    if (isDefaultCrop) onSave(undefined, undefined);
+    else onSave(crop, focalPoint);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Crop for {targetName} ({targetWidth}×{targetHeight})</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            size="small"
+            onChange={(_, value: EditorMode | null) => value && setMode(value)}
+          >
+            <ToggleButton value="crop"><MoveIcon sx={{ mr: 1 }} fontSize="small" />Move crop</ToggleButton>
+            <ToggleButton value="focus"><FocusIcon sx={{ mr: 1 }} fontSize="small" />Focal point</ToggleButton>
+          </ToggleButtonGroup>
+          <Typography variant="body2" color="text.secondary" sx={{ flexShrink: 0 }}>Zoom</Typography>
+          <Slider
+            value={zoom}
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            onChange={(_, value) => handleZoomChange(value as number)}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => `${value.toFixed(2)}×`}
+          />
+        </Box>
+
+        <Box
+          onClick={handleImageClick}
+          sx={{
+            position: 'relative',
+            width: sourceWidth * viewScale,
+            height: sourceHeight * viewScale,
+            mx: 'auto',
+            overflow: 'hidden',
+            cursor: mode === 'focus' ? 'crosshair' : 'default',
+            userSelect: 'none',
+          }}
+        >
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt={file.name}
+              draggable={false}
+              style={{ width: '100%', height: '100%', display: 'block' }}
+            />
+          )}
+          <Box
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            sx={{
+              position: 'absolute',
+              left: crop.x * viewScale,
+              top: crop.y * viewScale,
+              width: crop.width * viewScale,
+              height: crop.height * viewScale,
+              border: 2,
+              borderColor: 'primary.main',
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+              cursor: mode === 'crop' ? 'move' : 'crosshair',
+              pointerEvents: mode === 'crop' ? 'auto' : 'none',
+            }}
+          />
+          {focalPoint && (
+            <Box
+              sx={{
+                position: 'absolute',
+                left: `${focalPoint.x * 100}%`,
+                top: `${focalPoint.y * 100}%`,
+                width: 16,
+                height: 16,
+                ml: '-8px',
+                mt: '-8px',
+                borderRadius: '50%',
+                border: 2,
+                borderColor: 'secondary.main',
+                pointerEvents: 'none',
+              }}
+            />
+          )}
+        </Box>
+
+        <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>Output preview</Typography>
+        <canvas
+          ref={previewRef}
+          width={targetWidth}
+          height={targetHeight}
+          style={{ width: '100%', maxWidth: targetWidth, height: 'auto', display: 'block' }}
+        />
+        <Typography variant="caption" color="text.secondary">
+          Source region: {Math.round(crop.width)}×{Math.round(crop.height)} at ({Math.round(crop.x)}, {Math.round(crop.y)})
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleReset}>Reset</Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleApply}
+        >
+          Apply Crop
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CropEditorDialog;
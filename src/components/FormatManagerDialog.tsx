@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, TextField,
+  Table, TableHead, TableBody, TableRow, TableCell, Switch, IconButton, Tooltip
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+  RestartAlt as ResetIcon,
+} from '@mui/icons-material';
+import { getAspectRatio, formatFileSize, presetPacks, type BannerFormat, type BannerFormatInput } from '@/core';
+
+const emptyDraft = { name: '', width: '', height: '', useCase: '', maxSizeKb: '' };
+
+const FormatManagerDialog: React.FC<{
+  open: boolean;
+  formats: BannerFormat[];
+  onClose: () => void;
+  onAdd: (input: BannerFormatInput) => void;
+  onUpdate: (id: string, changes: Partial<BannerFormatInput> & { enabled?: boolean }) => void;
+  onRemove: (id: string) => void;
+  onReset: () => void;
+  enabledPackIds: string[];
+  onTogglePack: (packId: string) => void;
+}> = ({ open, formats, onClose, onAdd, onUpdate, onRemove, onReset, enabledPackIds, onTogglePack }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const width = Number(draft.width);
+  const height = Number(draft.height);
+  const widthError = draft.width !== '' && !(Number.isInteger(width) && width > 0);
+  const heightError = draft.height !== '' && !(Number.isInteger(height) && height > 0);
+  const maxSizeKb = Number(draft.maxSizeKb);
+  const maxSizeError = draft.maxSizeKb !== '' && !(maxSizeKb > 0);
+  const isValid = draft.width !== '' && draft.height !== '' && !widthError && !heightError && !maxSizeError;
+
+  const startEditing = (format: BannerFormat) => {
+    setEditingId(format.id);
+    setDraft({
+      name: format.name,
+      width: String(format.width),
+      height: String(format.height),
+      useCase: format.useCase,
+      maxSizeKb: format.maxFileSize ? String(format.maxFileSize / 1024) : '',
+    });
+  };
+
+  const clearDraft = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+    const input = {
+      name: draft.name,
+      width,
+      height,
+      useCase: draft.useCase,
+      maxFileSize: draft.maxSizeKb === '' ? undefined : Math.round(maxSizeKb * 1024),
+    };
+    if (editingId) {
+      onUpdate(editingId, { ...input, name: input.name.trim() || `Banner ${width}x${height}` });
+    } else {
+      onAdd(input);
+    }
+    clearDraft();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Manage Banner Formats</DialogTitle>
+      <DialogContent>
+        <Typography variant="subtitle1" sx={{ mb: 1 }}>Preset packs</Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 1, mb: 3 }}>
+          {presetPacks.map(pack => (
+            <Box key={pack.id} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, p: 1, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+              <Switch
+                size="small"
+                checked={enabledPackIds.includes(pack.id)}
+                onChange={() => onTogglePack(pack.id)}
+              />
+              <Box>
+                <Typography variant="body2">{pack.name} ({pack.formats.length})</Typography>
+                <Typography variant="caption" color="text.secondary">{pack.description}</Typography>
+              </Box>
+            </Box>
+          ))}
+        </Box>
+
+        <Typography variant="subtitle1" sx={{ mb: 1 }}>Custom formats</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Enabled</TableCell>
+              <TableCell>Name</TableCell>
+              <TableCell>Size</TableCell>
+              <TableCell>Ratio</TableCell>
+              <TableCell>Use case</TableCell>
+              <TableCell>Max size</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {formats.map(format => (
+              <TableRow key={format.id} selected={format.id === editingId}>
+                <TableCell>
+                  <Switch
+                    size="small"
+                    checked={format.enabled}
+                    onChange={(e) => onUpdate(format.id, { enabled: e.target.checked })}
+                  />
+                </TableCell>
+                <TableCell>{format.name}</TableCell>
+                <TableCell>{format.width}×{format.height}</TableCell>
+                <TableCell>{format.aspectRatio.toFixed(2)}:1</TableCell>
+                <TableCell>{format.useCase}</TableCell>
+                <TableCell>{format.maxFileSize ? formatFileSize(format.maxFileSize) : '—'}</TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Tooltip title="Edit">
+                    <IconButton size="small" onClick={() => startEditing(format)}><EditIcon fontSize="small" /></IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        if (format.id === editingId) clearDraft();
+                        onRemove(format.id);
+                      }}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+          {editingId ? 'Edit format' : 'Add format'}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+          <TextField
+            label="Name"
+            size="small"
+            value={draft.name}
+            placeholder={isValid ? `Banner ${width}x${height}` : ''}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <TextField
+            label="Width"
+            size="small"
+            type="number"
+            value={draft.width}
+            error={widthError}
+            onChange={(e) => setDraft({ ...draft, width: e.target.value })}
+            sx={{ width: 110 }}
+          />
+          <TextField
+            label="Height"
+            size="small"
+            type="number"
+            value={draft.height}
+            error={heightError}
+            onChange={(e) => setDraft({ ...draft, height: e.target.value })}
+            sx={{ width: 110 }}
+          />
+          <TextField
+            label="Max size (KB)"
+            size="small"
+            type="number"
+            value={draft.maxSizeKb}
+            error={maxSizeError}
+            placeholder="Global"
+            onChange={(e) => setDraft({ ...draft, maxSizeKb: e.target.value })}
+            sx={{ width: 130 }}
+          />
+          <TextField
+            label="Use case"
+            size="small"
+            value={draft.useCase}
+            onChange={(e) => setDraft({ ...draft, useCase: e.target.value })}
+            sx={{ flex: 1, minWidth: 180 }}
+          />
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+          <Button variant="contained" startIcon={editingId ? <EditIcon /> : <AddIcon />} disabled={!isValid} onClick={handleSubmit}>
+            {editingId ? 'Save Changes' : 'Add Format'}
+          </Button>
+          {editingId && <Button onClick={clearDraft}>Cancel Edit</Button>}
+          <Typography variant="body2" color="text.secondary">
+            {isValid && `Ratio: ${getAspectRatio(width, height).toFixed(2)}:1`}
+          </Typography>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          startIcon={<ResetIcon />}
+          onClick={() => {
+            clearDraft();
+            onReset();
+          }}
+          sx={{ mr: 'auto' }}
+        >
+          Restore Defaults
+        </Button>
+        <Button onClick={onClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FormatManagerDialog;
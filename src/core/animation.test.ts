@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  encodeAnimatedGif, encodeAnimationWithinBudget, fitAnimationToRules, getAnimatedOutputType, getAnimationIssues, getGifColors,
+  muxAnimatedWebp, readAnimationInfo
+} from './animation';
+
+const solidFrame = (width: number, height: number, rgba: number[], duration: number) => ({
+  data: Uint8ClampedArray.from({ length: width * height * 4 }, (_, i) => rgba[i % 4]),
+  duration,
+});
+
+const pngChunk = (type: string, data: number[]) => {
+  const length = [24, 16, 8, 0].map(shift => (data.length >>> shift) & 0xff);
+  // The CRC isn't checked when reading the animation info
+  return [...length, ...Array.from(type, c => c.charCodeAt(0)), ...data, 0, 0, 0, 0];
+};
+
+const uint32BE = (value: number) => [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff);
+const fcTL = (delayNum: number, delayDen: number) =>
+  pngChunk('fcTL', [...new Array(20).fill(0), delayNum >> 8, delayNum & 0xff, delayDen >> 8, delayDen & 0xff, 0, 0]);
+
+const stillWebp = (chunks: [string, number[]][]) => {
+  const body = chunks.flatMap(([type, data]) => [
+    ...Array.from(type, c => c.charCodeAt(0)),
+    data.length & 0xff, (data.length >> 8) & 0xff, 0, 0,
+    ...data,
+    ...(data.length & 1 ? [0] : []),
+  ]);
+  const size = body.length + 4;
+  return Uint8Array.from([
+    ...Array.from('RIFF', c => c.charCodeAt(0)), size & 0xff, (size >> 8) & 0xff, 0, 0,
+    ...Array.from('WEBP', c => c.charCodeAt(0)), ...body,
+  ]);
+};
+
+describe('readAnimationInfo', () => {
+  it('reads GIF frames, delays and the loop extension', () => {
+    const gif = encodeAnimatedGif([
+      solidFrame(4, 4, [255, 0, 0, 255], 500),
+      solidFrame(4, 4, [0, 0, 255, 255], 250),
+      solidFrame(4, 4, [0, 255, 0, 255], 0),
+    ], 4, 4, 3);
+    expect(readAnimationInfo(gif)).toEqual({ frameCount: 3, loopCount: 3, duration: 850, shortestFrame: 100 });
+  });
+
+  it('maps GIF loop counts both ways', () => {
+    const frames = [solidFrame(2, 2, [0, 0, 0, 255], 100), solidFrame(2, 2, [255, 255, 255, 255], 100)];
+    expect(readAnimationInfo(encodeAnimatedGif(frames, 2, 2, 0))?.loopCount).toBe(0);
+    expect(readAnimationInfo(encodeAnimatedGif(frames, 2, 2, 1))?.loopCount).toBe(1);
+    expect(readAnimationInfo(encodeAnimatedGif(frames, 2, 2, 2))?.loopCount).toBe(2);
+  });
+
+  it('reads APNG control chunks', () => {
+    const png = Uint8Array.from([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ...pngChunk('IHDR', new Array(13).fill(0)),
+      ...pngChunk('acTL', [...uint32BE(2), ...uint32BE(0)]),
+      ...fcTL(1, 10),
+      ...pngChunk('IDAT', [1, 2, 3]),
+      ...fcTL(3, 0),
+      ...pngChunk('fdAT', [0, 0, 0, 2, 1]),
+      ...pngChunk('IEND', []),
+    ]);
+    expect(readAnimationInfo(png)).toEqual({ frameCount: 2, loopCount: 0, duration: 130, shortestFrame: 30 });
+  });
+
+  it('is undefined for still images', () => {
+    const png = Uint8Array.from([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ...pngChunk('IHDR', new Array(13).fill(0)),
+      ...pngChunk('IDAT', [1, 2, 3]),
+      ...pngChunk('IEND', []),
+    ]);
+    expect(readAnimationInfo(png)).toBeUndefined();
+    expect(readAnimationInfo(encodeAnimatedGif([solidFrame(2, 2, [0, 0, 0, 255], 100)], 2, 2, 0))).toBeUndefined();
+    expect(readAnimationInfo(stillWebp([['VP8 ', [1, 2, 3, 4]]]))).toBeUndefined();
+  });
+});
+
+describe('muxAnimatedWebp', () => {
+  it('wraps still frames into an animation', () => {
+    const webp = muxAnimatedWebp([
+      { data: stillWebp([['VP8 ', [1, 2, 3, 4]]]), duration: 40 },
+      { data: stillWebp([['VP8X', new Array(10).fill(0)], ['ALPH', [9, 9, 9]], ['VP8 ', [5, 6]]]), duration: 60 },
+    ], 300, 250, 3);
+    expect(readAnimationInfo(webp)).toEqual({ frameCount: 2, loopCount: 3, duration: 100, shortestFrame: 40 });
+    // VP8X: animation and, because of the ALPH chunk, alpha
+    expect(webp[20]).toBe(0x12);
+    expect(webp[24] | (webp[25] << 8)).toBe(299);
+    expect(webp[27] | (webp[28] << 8)).toBe(249);
+    expect(new DataView(webp.buffer).getUint32(4, true)).toBe(webp.length - 8);
+  });
+
+  it('rejects frames that are not WebP', () => {
+    expect(() => muxAnimatedWebp([{ data: Uint8Array.from([0x89, 0x50, 0x4e, 0x47]), duration: 40 }], 1, 1, 0))
+      .toThrow('Animation frame is not a WebP image');
+  });
+});
+
+describe('getAnimatedOutputType', () => {
+  it('keeps GIFs as GIF and turns other animations into WebP', () => {
+    expect(getAnimatedOutputType('image/gif', 'auto')).toBe('image/gif');
+    expect(getAnimatedOutputType('image/png', 'auto')).toBe('image/webp');
+    expect(getAnimatedOutputType('image/gif', 'image/webp')).toBe('image/webp');
+    expect(getAnimatedOutputType('image/gif', 'still')).toBeUndefined();
+  });
+});
+
+describe('getAnimationIssues', () => {
+  const iab = { maxDuration: 15000, maxLoops: 3, maxFrameRate: 24 };
+
+  it('accepts animations within every limit', () => {
+    expect(getAnimationIssues({ frameCount: 50, loopCount: 3, duration: 5000, shortestFrame: 100 }, iab)).toEqual([]);
+    expect(getAnimationIssues({ frameCount: 50, loopCount: 0, duration: 5000, shortestFrame: 10 })).toEqual([]);
+  });
+
+  it('reports each broken limit', () => {
+    expect(getAnimationIssues({ frameCount: 300, loopCount: 0, duration: 6000, shortestFrame: 20 }, iab)).toEqual([
+      'Loops forever, but has to stop within 15s',
+      'Plays forever, but may play at most 3 times',
+      'Reaches 50 fps, over the 24 fps limit',
+    ]);
+    expect(getAnimationIssues({ frameCount: 20, loopCount: 2, duration: 10000, shortestFrame: 500 }, iab)).toEqual([
+      'Runs 20s with every loop, over the 15s limit',
+    ]);
+  });
+});
+
+describe('fitAnimationToRules', () => {
+  const frames = (...durations: number[]) => durations.map((duration, i) => ({ data: i, duration }));
+
+  it('merges short frames to bring down the frame rate', () => {
+    const result = fitAnimationToRules(frames(100, 100, 100, 100, 100, 50), 1, { maxFrameRate: 5 });
+    // The short tail joins the frame before it rather than playing too fast
+    expect(result.frames).toEqual([{ data: 0, duration: 200 }, { data: 2, duration: 350 }]);
+    expect(result.changes).toEqual(['Dropped 4 of 6 frames to stay within 5 fps']);
+  });
+
+  it('caps loops, then cuts plays to the time limit', () => {
+    const result = fitAnimationToRules(frames(2000, 2000), 0, { maxDuration: 15000, maxLoops: 5 });
+    expect(result.loopCount).toBe(3);
+    expect(result.changes).toEqual(['Plays 3 times instead of forever']);
+  });
+
+  it('trims whole frames from the end when one play is too long', () => {
+    const result = fitAnimationToRules(frames(4000, 4000, 4000, 4000), 3, { maxDuration: 10000 });
+    expect(result.frames).toEqual([{ data: 0, duration: 4000 }, { data: 1, duration: 4000 }]);
+    expect(result.loopCount).toBe(1);
+    expect(result.changes).toEqual(['Trimmed to 8s by dropping 2 frames from the end', 'Plays once instead of 3 times']);
+  });
+
+  it('keeps the frame rate within limits when trimming to the running time', () => {
+    const rules = { maxDuration: 15000, maxFrameRate: 15, maxLoops: 3 };
+    const result = fitAnimationToRules(frames(...new Array(300).fill(70)), 0, rules);
+    expect(result.frames.every(frame => frame.duration >= 70)).toBe(true);
+    expect(result.loopCount).toBe(1);
+    expect(result.changes).toEqual(['Trimmed to 15s by dropping 86 frames from the end', 'Plays once instead of forever']);
+    const durations = result.frames.map(frame => frame.duration);
+    expect(getAnimationIssues({
+      frameCount: durations.length,
+      loopCount: result.loopCount,
+      duration: durations.reduce((total, duration) => total + duration, 0),
+      shortestFrame: Math.min(...durations),
+    }, rules)).toEqual([]);
+  });
+
+  it('leaves compliant animations alone', () => {
+    const result = fitAnimationToRules(frames(100, 100), 2, { maxDuration: 15000, maxLoops: 3, maxFrameRate: 24 });
+    expect(result).toEqual({ frames: frames(100, 100), loopCount: 2, changes: [] });
+  });
+});
+
+describe('encodeAnimationWithinBudget', () => {
+  const encoder = (sizes: (quality: number) => number) => async (quality: number) => ({ size: sizes(quality), type: 'image/gif' });
+
+  it('searches for the highest quality within the budget', async () => {
+    const result = await encodeAnimationWithinBudget(encoder(q => q * 100), 90, 5000);
+    expect(result).toMatchObject({ quality: 50, budgetMet: true });
+  });
+
+  it('returns the smallest attempt when nothing fits', async () => {
+    const result = await encodeAnimationWithinBudget(encoder(q => 10000 + q), 90, 5000);
+    expect(result).toMatchObject({ quality: 10, budgetMet: false });
+  });
+});
+
+describe('getGifColors', () => {
+  it('maps quality to a GIF palette size', () => {
+    expect(getGifColors(100)).toBe(256);
+    expect(getGifColors(50)).toBe(128);
+    expect(getGifColors(0)).toBe(2);
+  });
+});
@@ -0,0 +1,399 @@
+import * as gifencExports from 'gifenc';
+import { MIN_QUALITY, type EncodedImage } from './encode';
+import type { AnimationRules } from './formats';
+
+// Bundlers load gifenc's ES build; Node's ES module loader only sees its CommonJS build, as a default export
+const { GIFEncoder, applyPalette, quantize }: typeof gifencExports = 'GIFEncoder' in gifencExports
+  ? gifencExports
+  : (gifencExports as unknown as { default: typeof gifencExports }).default;
+
+/** Types animated inputs can be re-encoded as; canvas encoders only produce still images. */
+export type AnimatedOutputType = 'image/gif' | 'image/webp';
+
+/** An animated output type, `auto` to keep GIFs as GIF and the rest as WebP, or `still` for the first frame only. */
+export type AnimatedOutputSetting = AnimatedOutputType | 'auto' | 'still';
+
+export const animatedOutputTypes: { value: AnimatedOutputType; label: string }[] = [
+  { value: 'image/gif', label: 'Animated GIF' },
+  { value: 'image/webp', label: 'Animated WebP' },
+];
+
+export interface AnimationInfo {
+  frameCount: number;
+  /** How many times the animation plays; 0 plays it forever. */
+  loopCount: number;
+  /** One play, in milliseconds. */
+  duration: number;
+  /** Shortest frame in milliseconds, which sets the peak frame rate. */
+  shortestFrame: number;
+}
+
+/** One fully composited frame. */
+export interface AnimationFrame<T = Uint8ClampedArray> {
+  data: T;
+  /** In milliseconds. */
+  duration: number;
+}
+
+const SEARCH_STEPS = 6;
+
+/** Browsers play frames of 10ms or less at 100ms, so that is what they last everywhere else too. */
+export const normalizeFrameDuration = (milliseconds: number) => (milliseconds <= 10 ? 100 : milliseconds);
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+const readUint16LE = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+const readUint24LE = (bytes: Uint8Array, offset: number) => readUint16LE(bytes, offset) | (bytes[offset + 2] << 16);
+const readUint32LE = (bytes: Uint8Array, offset: number) => (readUint24LE(bytes, offset) | (bytes[offset + 3] << 24)) >>> 0;
+const readUint16BE = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint32BE = (bytes: Uint8Array, offset: number) => ((readUint16BE(bytes, offset) << 16) | readUint16BE(bytes, offset + 2)) >>> 0;
+
+const writeUint16LE = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+};
+const writeUint24LE = (bytes: Uint8Array, offset: number, value: number) => {
+  writeUint16LE(bytes, offset, value);
+  bytes[offset + 2] = (value >> 16) & 0xff;
+};
+const writeUint32LE = (bytes: Uint8Array, offset: number, value: number) => {
+  writeUint16LE(bytes, offset, value);
+  writeUint16LE(bytes, offset + 2, value >>> 16);
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const addFrame = (info: AnimationInfo, duration: number) => {
+  const played = normalizeFrameDuration(duration);
+  info.frameCount++;
+  info.duration += played;
+  info.shortestFrame = Math.min(info.shortestFrame, played);
+};
+
+const readGifInfo = (bytes: Uint8Array) => {
+  const skipColorTable = (offset: number, flags: number) => (flags & 0x80 ? offset + 3 * 2 ** ((flags & 0x07) + 1) : offset);
+  const skipSubBlocks = (offset: number) => {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    return offset + 1;
+  };
+  let offset = skipColorTable(13, bytes[10]);
+  // Without a NETSCAPE extension a GIF plays once
+  const info: AnimationInfo = { frameCount: 0, loopCount: 1, duration: 0, shortestFrame: Infinity };
+  let delay = 0;
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x21) {
+      const label = bytes[offset + 1];
+      if (label === 0xf9) {
+        delay = readUint16LE(bytes, offset + 4);
+      } else if (label === 0xff && readAscii(bytes, offset + 3, 11) === 'NETSCAPE2.0' && bytes[offset + 15] === 1) {
+        // The extension counts repeats after the first play
+        const repeats = readUint16LE(bytes, offset + 16);
+        info.loopCount = repeats === 0 ? 0 : repeats + 1;
+      }
+      offset = skipSubBlocks(offset + 2);
+    } else if (block === 0x2c) {
+      offset = skipSubBlocks(skipColorTable(offset + 10, bytes[offset + 9]) + 1);
+      addFrame(info, delay * 10);
+      delay = 0;
+    } else {
+      // The trailer, or a truncated file
+      break;
+    }
+  }
+  return info;
+};
+
+const readApngInfo = (bytes: Uint8Array) => {
+  let offset = 8;
+  let info: AnimationInfo | undefined;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    const data = offset + 8;
+    if (type === 'acTL') {
+      info = { frameCount: 0, loopCount: readUint32BE(bytes, data + 4), duration: 0, shortestFrame: Infinity };
+    } else if (type === 'fcTL' && info) {
+      const numerator = readUint16BE(bytes, data + 20);
+      const denominator = readUint16BE(bytes, data + 22) || 100;
+      addFrame(info, (numerator * 1000) / denominator);
+    } else if (type === 'IDAT' && !info) {
+      // acTL has to come before the image data, so this is a plain PNG
+      return undefined;
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset = data + length + 4;
+  }
+  return info;
+};
+
+/** RIFF chunks of a WebP file, each with its header and padding. */
+const readWebpChunks = (bytes: Uint8Array) => {
+  const chunks: { type: string; data: Uint8Array; bytes: Uint8Array }[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = readUint32LE(bytes, offset + 4);
+    const end = Math.min(offset + 8 + size + (size & 1), bytes.length);
+    chunks.push({
+      type: readAscii(bytes, offset, 4),
+      data: bytes.subarray(offset + 8, offset + 8 + size),
+      bytes: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+  return chunks;
+};
+
+const readWebpInfo = (bytes: Uint8Array) => {
+  const info: AnimationInfo = { frameCount: 0, loopCount: 0, duration: 0, shortestFrame: Infinity };
+  for (const chunk of readWebpChunks(bytes)) {
+    if (chunk.type === 'ANIM') {
+      info.loopCount = readUint16LE(chunk.data, 4);
+    } else if (chunk.type === 'ANMF') {
+      addFrame(info, readUint24LE(chunk.data, 12));
+    }
+  }
+  return info;
+};
+
+const isWebp = (bytes: Uint8Array) => readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP';
+
+/**
+ * Frame count, loop count and duration of an animated GIF, APNG or WebP, read from the
+ * file itself. Undefined for still images, including single-frame animations.
+ */
+export const readAnimationInfo = (bytes: Uint8Array): AnimationInfo | undefined => {
+  let info: AnimationInfo | undefined;
+  if (readAscii(bytes, 0, 4) === 'GIF8') {
+    info = readGifInfo(bytes);
+  } else if (readUint32BE(bytes, 0) === 0x89504e47 && readUint32BE(bytes, 4) === 0x0d0a1a0a) {
+    info = readApngInfo(bytes);
+  } else if (isWebp(bytes)) {
+    info = readWebpInfo(bytes);
+  }
+  if (!info || info.frameCount < 2) return undefined;
+  return { ...info, duration: Math.round(info.duration), shortestFrame: Math.round(info.shortestFrame) };
+};
+
+/** Animated type an animated input is encoded as, or undefined to flatten it to its first frame. */
+export const getAnimatedOutputType = (inputType: string, setting: AnimatedOutputSetting): AnimatedOutputType | undefined => {
+  if (setting === 'still') return undefined;
+  if (setting === 'auto') return inputType === 'image/gif' ? 'image/gif' : 'image/webp';
+  return setting;
+};
+
+/** Frames per second while the shortest frame plays. */
+export const getPeakFrameRate = (info: AnimationInfo) => 1000 / info.shortestFrame;
+
+/** Running time with every loop, in milliseconds; Infinity for animations that loop forever. */
+export const getTotalDuration = ({ duration, loopCount }: AnimationInfo) => (loopCount === 0 ? Infinity : duration * loopCount);
+
+const formatSeconds = (milliseconds: number) => `${Math.round(milliseconds / 100) / 10}s`;
+
+const formatPlays = (loopCount: number) => (loopCount === 0 ? 'forever' : loopCount === 1 ? 'once' : `${loopCount} times`);
+
+/** How the animation breaks `rules`, one message per rule; empty when it complies or there are no rules. */
+export const getAnimationIssues = (info: AnimationInfo, rules?: AnimationRules): string[] => {
+  const issues: string[] = [];
+  if (!rules) return issues;
+  if (rules.maxDuration !== undefined && getTotalDuration(info) > rules.maxDuration) {
+    issues.push(info.loopCount === 0
+      ? `Loops forever, but has to stop within ${formatSeconds(rules.maxDuration)}`
+      : `Runs ${formatSeconds(getTotalDuration(info))} with every loop, over the ${formatSeconds(rules.maxDuration)} limit`);
+  }
+  if (rules.maxLoops !== undefined && (info.loopCount === 0 || info.loopCount > rules.maxLoops)) {
+    issues.push(`Plays ${formatPlays(info.loopCount)}, but may play at most ${formatPlays(rules.maxLoops)}`);
+  }
+  if (rules.maxFrameRate !== undefined && getPeakFrameRate(info) > rules.maxFrameRate) {
+    issues.push(`Reaches ${Math.round(getPeakFrameRate(info) * 10) / 10} fps, over the ${rules.maxFrameRate} fps limit`);
+  }
+  return issues;
+};
+
+/**
+ * Changes the animation until it meets `rules`. Frames shorter than the frame rate allows
+ * are merged into the one before them, endless or extra loops are capped, and what still
+ * runs too long loses loops, then whole frames from the end. `changes` says what was done.
+ */
+export const fitAnimationToRules = <T>(frames: AnimationFrame<T>[], loopCount: number, rules: AnimationRules) => {
+  const changes: string[] = [];
+  let fitted = frames.map(frame => ({ ...frame }));
+  let loops = loopCount;
+
+  if (rules.maxFrameRate) {
+    // Rounded up to whole hundredths of a second, which is all a GIF can store
+    const minDuration = Math.ceil(100 / rules.maxFrameRate) * 10;
+    const merged: AnimationFrame<T>[] = [];
+    for (const frame of fitted) {
+      const previous = merged[merged.length - 1];
+      if (previous && previous.duration < minDuration) previous.duration += frame.duration;
+      else merged.push(frame);
+    }
+    if (merged.length > 1 && merged[merged.length - 1].duration < minDuration) {
+      merged[merged.length - 2].duration += merged.pop()!.duration;
+    }
+    if (merged.length < fitted.length) {
+      changes.push(`Dropped ${fitted.length - merged.length} of ${fitted.length} frames to stay within ${rules.maxFrameRate} fps`);
+    }
+    fitted = merged;
+  }
+
+  if (rules.maxLoops && (loops === 0 || loops > rules.maxLoops)) loops = rules.maxLoops;
+
+  if (rules.maxDuration) {
+    const duration = fitted.reduce((total, frame) => total + frame.duration, 0);
+    if (duration > rules.maxDuration) {
+      // Whole frames only: shortening the last one could take it back over the frame rate
+      const kept: AnimationFrame<T>[] = [];
+      let elapsed = 0;
+      for (const frame of fitted) {
+        if (elapsed + frame.duration > rules.maxDuration) break;
+        kept.push(frame);
+        elapsed += frame.duration;
+      }
+      if (kept.length === 0) {
+        kept.push({ ...fitted[0], duration: rules.maxDuration });
+        elapsed = rules.maxDuration;
+      }
+      changes.push(`Trimmed to ${formatSeconds(elapsed)} by dropping ${fitted.length - kept.length} frames from the end`);
+      fitted = kept;
+      loops = 1;
+    } else if (loops === 0 || duration * loops > rules.maxDuration) {
+      loops = Math.floor(rules.maxDuration / duration);
+    }
+  }
+
+  if (loops !== loopCount) changes.push(`Plays ${formatPlays(loops)} instead of ${formatPlays(loopCount)}`);
+
+  return { frames: fitted, loopCount: loops, changes };
+};
+
+/** GIF has no quality setting; fewer palette colors is what makes it smaller. */
+export const getGifColors = (quality: number) => Math.max(2, Math.min(256, Math.round(quality * 2.56)));
+
+/** Encodes RGBA frames of `width`×`height` as an animated GIF with its own palette per frame. */
+export const encodeAnimatedGif = (
+  frames: AnimationFrame[],
+  width: number,
+  height: number,
+  loopCount: number,
+  colors = 256
+) => {
+  const gif = GIFEncoder();
+  // gifenc takes repeats after the first play, and -1 for a single play
+  const repeat = loopCount === 0 ? 0 : loopCount - 1 || -1;
+  for (const frame of frames) {
+    const palette = quantize(frame.data, colors, { format: 'rgba4444', oneBitAlpha: true });
+    const index = applyPalette(frame.data, palette, 'rgba4444');
+    const transparentIndex = palette.findIndex(color => color[3] === 0);
+    gif.writeFrame(index, width, height, {
+      palette,
+      delay: frame.duration,
+      repeat,
+      transparent: transparentIndex >= 0,
+      transparentIndex,
+    });
+  }
+  gif.finish();
+  return gif.bytes();
+};
+
+const createWebpChunk = (type: string, data: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set(Array.from(type, char => char.charCodeAt(0)));
+  writeUint32LE(header, 4, data.length);
+  return concatBytes(data.length & 1 ? [header, data, new Uint8Array(1)] : [header, data]);
+};
+
+/**
+ * Combines still WebP frames, as canvas encoders produce them, into one animated WebP.
+ * Every frame covers the whole `width`×`height` canvas and replaces the one before it.
+ */
+export const muxAnimatedWebp = (frames: AnimationFrame<Uint8Array>[], width: number, height: number, loopCount: number) => {
+  let hasAlpha = false;
+  const frameChunks = frames.map(frame => {
+    const chunks = isWebp(frame.data)
+      ? readWebpChunks(frame.data).filter(chunk => chunk.type === 'ALPH' || chunk.type === 'VP8 ' || chunk.type === 'VP8L')
+      : [];
+    if (!chunks.some(chunk => chunk.type !== 'ALPH')) throw new Error('Animation frame is not a WebP image');
+    if (chunks.some(chunk => chunk.type !== 'VP8 ')) hasAlpha = true;
+    const header = new Uint8Array(16);
+    writeUint24LE(header, 6, width - 1);
+    writeUint24LE(header, 9, height - 1);
+    writeUint24LE(header, 12, Math.min(Math.round(frame.duration), 0xffffff));
+    // Don't blend with the previous frame; each one is complete
+    header[15] = 0x02;
+    return createWebpChunk('ANMF', concatBytes([header, ...chunks.map(chunk => chunk.bytes)]));
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0);
+  writeUint24LE(vp8x, 4, width - 1);
+  writeUint24LE(vp8x, 7, height - 1);
+  const anim = new Uint8Array(6);
+  writeUint16LE(anim, 4, Math.min(loopCount, 0xffff));
+
+  const body = concatBytes([
+    new TextEncoder().encode('WEBP'),
+    createWebpChunk('VP8X', vp8x),
+    createWebpChunk('ANIM', anim),
+    ...frameChunks,
+  ]);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'));
+  writeUint32LE(header, 4, body.length);
+  return concatBytes([header, body]);
+};
+
+/**
+ * Encodes at the requested quality and, over a byte budget, searches for the highest
+ * quality that fits. Unlike still images there is no other type to fall back to, so
+ * without a fit the smallest attempt is returned.
+ */
+export const encodeAnimationWithinBudget = async <T extends EncodedImage>(
+  encode: (quality: number) => Promise<T>,
+  quality: number,
+  budget?: number,
+  onAttempt?: (attempt: number, maxAttempts: number, quality: number) => void
+): Promise<{ blob: T; quality: number; budgetMet?: boolean }> => {
+  const maxAttempts = budget ? SEARCH_STEPS + 2 : 1;
+  let attemptCount = 0;
+  const attempt = async (q: number) => {
+    onAttempt?.(Math.min(++attemptCount, maxAttempts), maxAttempts, q);
+    return { blob: await encode(q), quality: q };
+  };
+
+  const first = await attempt(quality);
+  if (!budget) return first;
+  if (first.blob.size <= budget) return { ...first, budgetMet: true };
+
+  let smallest = first;
+  let best: typeof first | undefined;
+  let low = MIN_QUALITY;
+  let high = quality - 1;
+  for (let step = 0; step < SEARCH_STEPS && low <= high; step++) {
+    const result = await attempt(Math.round((low + high) / 2));
+    if (result.blob.size < smallest.blob.size) smallest = result;
+    if (result.blob.size <= budget) {
+      best = result;
+      low = result.quality + 1;
+    } else {
+      high = result.quality - 1;
+    }
+  }
+  if (!best && low <= MIN_QUALITY) {
+    const result = await attempt(MIN_QUALITY);
+    if (result.blob.size < smallest.blob.size) smallest = result;
+    if (result.blob.size <= budget) best = result;
+  }
+  return best ? { ...best, budgetMet: true } : { ...smallest, budgetMet: false };
+};
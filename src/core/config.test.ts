@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBannerConfig,
+  getActiveConfigFormats,
+  getConfigFormats,
+  getConfigOutputType,
+  parseBannerConfig,
+  serializeBannerConfig,
+} from './config';
+import { defaultBannerFormats } from './formats';
+
+describe('parseBannerConfig', () => {
+  it('fills in defaults for an empty config', () => {
+    expect(parseBannerConfig('{}')).toEqual({
+      version: 1,
+      presetPacks: [],
+      fitMode: 'cover',
+      outputType: 'auto',
+      quality: 90,
+      fanOut: false,
+      filenameTemplate: '{name}_{w}x{h}',
+    });
+  });
+
+  it('lists every problem in one error', () => {
+    expect(() => parseBannerConfig({
+      formats: [{ width: 0, height: 90 }],
+      presetPacks: ['tv'],
+      quality: 101,
+      filenameTemplate: '{name}_{size}',
+      colour: 'red',
+    })).toThrow(/formats\.0\.width: .*; presetPacks\.0: Unknown preset pack "tv"; quality: .*; filenameTemplate: Unknown token\(s\) \{size\}; config: Unrecognized key\(s\) in object: 'colour'/);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseBannerConfig('{ formats: ')).toThrow('Config is not valid JSON');
+  });
+});
+
+describe('config formats', () => {
+  it('uses the built-in formats when none are declared', () => {
+    expect(getConfigFormats(parseBannerConfig({}))).toBe(defaultBannerFormats);
+  });
+
+  it('converts sizes to bytes and keeps disabled formats out of runs', () => {
+    const config = parseBannerConfig({
+      formats: [
+        { name: 'Leaderboard', width: 728, height: 90, maxSizeKb: 150 },
+        { width: 300, height: 250, enabled: false },
+      ],
+      presetPacks: ['email'],
+    });
+    expect(getConfigFormats(config)).toMatchObject([
+      { id: 'config-1-728x90', name: 'Leaderboard', maxFileSize: 150 * 1024, enabled: true },
+      { id: 'config-2-300x250', name: 'Banner 300x250', enabled: false },
+    ]);
+    expect(getActiveConfigFormats(config).map(f => f.id)).toEqual([
+      'config-1-728x90', 'email-600x200', 'email-600x300', 'email-640x200', 'email-700x250',
+    ]);
+  });
+});
+
+describe('createBannerConfig', () => {
+  it('round-trips through JSON', () => {
+    const config = createBannerConfig({
+      formats: defaultBannerFormats.slice(0, 2).map((f, i) => ({ ...f, enabled: i === 0, maxFileSize: i === 0 ? 51200 : undefined })),
+      enabledPackIds: ['iab'],
+      fitMode: 'contain',
+      outputType: 'image/webp',
+      quality: 75,
+      budgetKb: 200,
+      fanOut: true,
+      filenameTemplate: '{campaign}/{name}-{w}x{h}',
+      campaign: 'Summer',
+    });
+    const parsed = parseBannerConfig(serializeBannerConfig(config));
+    expect(parsed).toEqual(config);
+    expect(parsed.formats).toEqual([
+      { name: 'Banner 600x500', width: 600, height: 500, useCase: 'Standard Square Banner', maxSizeKb: 50, enabled: true },
+      { name: 'Banner 640x200', width: 640, height: 200, useCase: 'Horizontal Rectangular Banner', enabled: false },
+    ]);
+    expect(getConfigOutputType(parsed)).toBe('image/webp');
+  });
+});
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import type { FitMode } from './crop';
+import { DEFAULT_QUALITY, MIN_QUALITY, type OutputType, type OutputTypeSetting } from './encode';
+import { DEFAULT_FILENAME_TEMPLATE, getUnknownTemplateTokens } from './filenames';
+import { createBannerFormat, defaultBannerFormats, type BannerFormat } from './formats';
+import { presetPacks } from './presets';
+
+export const CONFIG_FILENAME = 'banner-optimizer.config.json';
+
+const configOutputTypes = ['auto', 'jpeg', 'png', 'webp', 'avif'] as const;
+
+const configFormatSchema = z.object({
+  name: z.string().default(''),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  useCase: z.string().default(''),
+  maxSizeKb: z.number().positive().optional(),
+  enabled: z.boolean().default(true),
+}).strict();
+
+/**
+ * Shape of `banner-optimizer.config.json`. Sizes are in KB, like the UI fields, and
+ * output types use short names. Omitted `formats` means the built-in defaults.
+ */
+export const bannerConfigSchema = z.object({
+  $schema: z.string().optional(),
+  version: z.literal(1).default(1),
+  formats: z.array(configFormatSchema).optional(),
+  presetPacks: z.array(
+    z.string().refine(id => presetPacks.some(pack => pack.id === id), id => ({ message: `Unknown preset pack "${id}"` }))
+  ).default([]),
+  fitMode: z.enum(['cover', 'contain', 'stretch']).default('cover'),
+  outputType: z.enum(configOutputTypes).default('auto'),
+  quality: z.number().int().min(MIN_QUALITY).max(100).default(DEFAULT_QUALITY),
+  budgetKb: z.number().positive().optional(),
+  fanOut: z.boolean().default(false),
+  filenameTemplate: z.string().trim().min(1).default(DEFAULT_FILENAME_TEMPLATE)
+    .refine(template => getUnknownTemplateTokens(template).length === 0, template => ({
+      message: `Unknown token(s) ${getUnknownTemplateTokens(template).map(token => `{${token}}`).join(', ')}`,
+    })),
+  /** Value of the `{campaign}` filename token. */
+  campaign: z.string().trim().optional(),
+}).strict();
+
+export type BannerConfig = z.infer<typeof bannerConfigSchema>;
+
+/** Validates a parsed or raw JSON config, throwing one readable error listing every problem. */
+export const parseBannerConfig = (input: unknown): BannerConfig => {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new Error('Config is not valid JSON');
+    }
+  }
+  const result = bannerConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+    throw new Error(`Invalid config: ${issues.join('; ')}`);
+  }
+  return result.data;
+};
+
+/** The config's own formats (including disabled ones) as banner formats with stable ids. */
+export const getConfigFormats = (config: BannerConfig): BannerFormat[] => {
+  if (!config.formats) return defaultBannerFormats;
+  return config.formats.map((format, index) => ({
+    ...createBannerFormat(
+      {
+        name: format.name,
+        width: format.width,
+        height: format.height,
+        useCase: format.useCase,
+        maxFileSize: format.maxSizeKb ? Math.round(format.maxSizeKb * 1024) : undefined,
+      },
+      `config-${index + 1}-${format.width}x${format.height}`
+    ),
+    enabled: format.enabled,
+  }));
+};
+
+/** Formats a run should match against: enabled config formats plus enabled preset packs. */
+export const getActiveConfigFormats = (config: BannerConfig): BannerFormat[] => [
+  ...getConfigFormats(config).filter(format => format.enabled),
+  ...presetPacks.filter(pack => config.presetPacks.includes(pack.id)).flatMap(pack => pack.formats),
+];
+
+export const getConfigOutputType = (config: BannerConfig): OutputTypeSetting =>
+  config.outputType === 'auto' ? 'auto' : `image/${config.outputType}` as OutputType;
+
+export interface ConfigSettings {
+  formats: BannerFormat[];
+  enabledPackIds: string[];
+  fitMode: FitMode;
+  outputType: OutputTypeSetting;
+  quality: number;
+  budgetKb?: number;
+  fanOut: boolean;
+  filenameTemplate: string;
+  campaign?: string;
+}
+
+/** Inverse of the getters above, for exporting the current UI settings. */
+export const createBannerConfig = (settings: ConfigSettings): BannerConfig => ({
+  version: 1,
+  formats: settings.formats.map(format => ({
+    name: format.name,
+    width: format.width,
+    height: format.height,
+    useCase: format.useCase,
+    ...(format.maxFileSize ? { maxSizeKb: Math.round((format.maxFileSize / 1024) * 100) / 100 } : {}),
+    enabled: format.enabled,
+  })),
+  presetPacks: settings.enabledPackIds,
+  fitMode: settings.fitMode,
+  outputType: settings.outputType === 'auto' ? 'auto' : configOutputTypes.find(type => settings.outputType === `image/${type}`)!,
+  quality: settings.quality,
+  ...(settings.budgetKb ? { budgetKb: settings.budgetKb } : {}),
+  fanOut: settings.fanOut,
+  filenameTemplate: settings.filenameTemplate,
+  ...(settings.campaign ? { campaign: settings.campaign } : {}),
+});
+
+export const serializeBannerConfig = (config: BannerConfig) => `${JSON.stringify(config, null, 2)}\n`;
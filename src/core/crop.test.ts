@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { clampCrop, getCoverCrop, getDrawRect } from './crop';
+
+describe('getCoverCrop', () => {
+  it('takes the largest centered region with the target ratio', () => {
+    const crop = getCoverCrop(1000, 1000, 728, 90);
+    expect(crop.x).toBe(0);
+    expect(crop.width).toBe(1000);
+    expect(crop.width / crop.height).toBeCloseTo(728 / 90);
+    expect(crop.y + crop.height / 2).toBeCloseTo(500);
+  });
+
+  it('centers on the focal point but stays inside the image', () => {
+    const crop = getCoverCrop(1000, 500, 100, 100, { x: 0.9, y: 0.5 });
+    expect(crop).toEqual({ x: 500, y: 0, width: 500, height: 500 });
+  });
+
+  it('shrinks the region when zoomed in', () => {
+    const crop = getCoverCrop(1000, 500, 100, 100, undefined, 2);
+    expect(crop).toEqual({ x: 375, y: 125, width: 250, height: 250 });
+  });
+});
+
+describe('clampCrop', () => {
+  it('moves an out-of-bounds crop back inside', () => {
+    expect(clampCrop({ x: -20, y: 480, width: 100, height: 50 }, 400, 500)).toEqual({ x: 0, y: 450, width: 100, height: 50 });
+  });
+});
+
+describe('getDrawRect', () => {
+  it('stretches the whole source over the whole target', () => {
+    expect(getDrawRect(400, 300, 728, 90, 'stretch')).toEqual({ sx: 0, sy: 0, sw: 400, sh: 300, dx: 0, dy: 0, dw: 728, dh: 90 });
+  });
+
+  it('letterboxes in contain mode', () => {
+    expect(getDrawRect(400, 400, 800, 200, 'contain')).toEqual({ sx: 0, sy: 0, sw: 400, sh: 400, dx: 300, dy: 0, dw: 200, dh: 200 });
+  });
+
+  it('crops the source in cover mode', () => {
+    expect(getDrawRect(400, 400, 800, 200, 'cover')).toEqual({ sx: 0, sy: 150, sw: 400, sh: 100, dx: 0, dy: 0, dw: 800, dh: 200 });
+  });
+
+  it('lets an explicit crop override the fit mode', () => {
+    const crop = { x: 10, y: 20, width: 80, height: 10 };
+    expect(getDrawRect(400, 400, 800, 100, 'contain', { crop })).toEqual({ sx: 10, sy: 20, sw: 80, sh: 10, dx: 0, dy: 0, dw: 800, dh: 100 });
+  });
+});
@@ -0,0 +1,99 @@
+export type FitMode = 'cover' | 'contain' | 'stretch';
+
+/** Region of the source image, in source pixels. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Point of interest in the source image, normalized to 0..1 on both axes. */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface DrawRect {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Returns the largest crop with the target aspect ratio that fits in the source,
+ * centered on the focal point (or the middle of the image) and kept inside its bounds.
+ */
+export const getCoverCrop = (
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number,
+  focalPoint?: FocalPoint,
+  zoom = 1
+): CropRect => {
+  const scale = Math.max(dstWidth / srcWidth, dstHeight / srcHeight) * zoom;
+  const width = dstWidth / scale;
+  const height = dstHeight / scale;
+  const center = focalPoint ?? { x: 0.5, y: 0.5 };
+  return {
+    x: clamp(center.x * srcWidth - width / 2, 0, srcWidth - width),
+    y: clamp(center.y * srcHeight - height / 2, 0, srcHeight - height),
+    width,
+    height,
+  };
+};
+
+/** Moves a crop so it stays entirely inside the source image. */
+export const clampCrop = (crop: CropRect, srcWidth: number, srcHeight: number): CropRect => {
+  const width = Math.min(crop.width, srcWidth);
+  const height = Math.min(crop.height, srcHeight);
+  return {
+    x: clamp(crop.x, 0, srcWidth - width),
+    y: clamp(crop.y, 0, srcHeight - height),
+    width,
+    height,
+  };
+};
+
+/**
+ * Works out which part of the source goes where on the target canvas. An explicit
+ * crop always fills the whole target; otherwise the fit mode decides.
+ */
+export const getDrawRect = (
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number,
+  fitMode: FitMode,
+  options: { crop?: CropRect; focalPoint?: FocalPoint } = {}
+): DrawRect => {
+  const target = { dx: 0, dy: 0, dw: dstWidth, dh: dstHeight };
+  if (options.crop) {
+    const { x, y, width, height } = options.crop;
+    return { sx: x, sy: y, sw: width, sh: height, ...target };
+  }
+
+  const full = { sx: 0, sy: 0, sw: srcWidth, sh: srcHeight };
+  if (fitMode === 'stretch') {
+    return { ...full, ...target };
+  }
+
+  if (fitMode === 'contain') {
+    const scale = Math.min(dstWidth / srcWidth, dstHeight / srcHeight);
+    const dw = srcWidth * scale;
+    const dh = srcHeight * scale;
+    return { ...full, dx: (dstWidth - dw) / 2, dy: (dstHeight - dh) / 2, dw, dh };
+  }
+
+  const crop = getCoverCrop(srcWidth, srcHeight, dstWidth, dstHeight, options.focalPoint);
+  return { sx: crop.x, sy: crop.y, sw: crop.width, sh: crop.height, ...target };
+};
+
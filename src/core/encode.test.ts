@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWithinBudget, getBackgroundForType, getDefaultOutputType, getMaxAttempts, type EncodedImage, type OutputType } from './encode';
+
+/** Fake encoder whose output shrinks linearly with quality. */
+const fakeEncoder = (bytesPerQuality: Partial<Record<OutputType, number>>) => {
+  const calls: [OutputType, number][] = [];
+  const encode = async (type: OutputType, quality: number): Promise<EncodedImage | null> => {
+    calls.push([type, quality]);
+    const perQuality = bytesPerQuality[type];
+    if (perQuality === undefined) return { type: 'image/png', size: 1 };
+    return { type, size: perQuality * quality };
+  };
+  return { encode, calls };
+};
+
+describe('encodeWithinBudget', () => {
+  it('encodes once without a budget', async () => {
+    const { encode, calls } = fakeEncoder({ 'image/jpeg': 1000 });
+    const result = await encodeWithinBudget(encode, 'image/jpeg', 90);
+    expect(result).toMatchObject({ type: 'image/jpeg', quality: 90 });
+    expect(result.budgetMet).toBeUndefined();
+    expect(calls).toHaveLength(1);
+  });
+
+  it('finds the highest quality that fits', async () => {
+    const { encode } = fakeEncoder({ 'image/jpeg': 1000 });
+    const result = await encodeWithinBudget(encode, 'image/jpeg', 90, 55_500);
+    expect(result.budgetMet).toBe(true);
+    expect(result.type).toBe('image/jpeg');
+    expect(result.blob.size).toBeLessThanOrEqual(55_500);
+    expect(result.quality).toBeGreaterThanOrEqual(50);
+  });
+
+  it('falls back to another type when the preferred one cannot fit', async () => {
+    const { encode } = fakeEncoder({ 'image/png': 1_000_000, 'image/webp': 1000 });
+    const result = await encodeWithinBudget(encode, 'image/png', 90, 30_000);
+    expect(result).toMatchObject({ type: 'image/webp', budgetMet: true });
+  });
+
+  it('returns the smallest attempt when nothing fits', async () => {
+    const { encode } = fakeEncoder({ 'image/jpeg': 1000, 'image/webp': 800 });
+    const result = await encodeWithinBudget(encode, 'image/jpeg', 90, 100);
+    expect(result).toMatchObject({ type: 'image/webp', quality: 10, budgetMet: false });
+  });
+
+  it('counts every encode and stays within getMaxAttempts across the fallback types', async () => {
+    const preferredTypes: OutputType[] = ['image/png', 'image/jpeg', 'image/webp', 'image/avif'];
+    for (const preferredType of preferredTypes) {
+      // Nothing fits, so every fallback type is tried and searched
+      const { encode, calls } = fakeEncoder({ 'image/png': 5000, 'image/jpeg': 1000, 'image/webp': 800, 'image/avif': 600 });
+      const reported: number[] = [];
+      await encodeWithinBudget(encode, preferredType, 90, 100, attempt => reported.push(attempt));
+      expect(reported).toEqual(calls.map((_, i) => i + 1));
+      expect(calls.length).toBeLessThanOrEqual(getMaxAttempts(preferredType, 100));
+    }
+  });
+
+  it('throws when the type cannot be encoded at all', async () => {
+    const { encode } = fakeEncoder({});
+    await expect(encodeWithinBudget(encode, 'image/avif', 90)).rejects.toThrow('Failed to create optimized blob');
+  });
+});
+
+describe('getDefaultOutputType', () => {
+  it('keeps supported input types and falls back to JPEG', () => {
+    expect(getDefaultOutputType('image/png')).toBe('image/png');
+    expect(getDefaultOutputType('image/gif')).toBe('image/jpeg');
+    expect(getDefaultOutputType('image/avif', type => type !== 'image/avif')).toBe('image/jpeg');
+  });
+});
+
+describe('getBackgroundForType', () => {
+  it('fills in a white background only for JPEG', () => {
+    expect(getBackgroundForType('image/jpeg')).toBe('#ffffff');
+    expect(getBackgroundForType('image/png')).toBeUndefined();
+    expect(getBackgroundForType('image/webp')).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+export type OutputType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/avif';
+
+/** An explicit output type, or `auto` to keep the input type where possible. */
+export type OutputTypeSetting = OutputType | 'auto';
+
+export const outputTypes: { value: OutputType; label: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/webp', label: 'WebP' },
+  { value: 'image/avif', label: 'AVIF' },
+];
+
+export const DEFAULT_QUALITY = 90;
+export const MIN_QUALITY = 10;
+const SEARCH_STEPS = 6;
+
+const lossyTypes: OutputType[] = ['image/jpeg', 'image/webp', 'image/avif'];
+
+/** Output types tried, in order, when the preferred one can't meet the budget. */
+const fallbackTypes: Record<OutputType, OutputType[]> = {
+  'image/png': ['image/webp', 'image/jpeg'],
+  'image/webp': ['image/jpeg'],
+  'image/jpeg': ['image/webp'],
+  'image/avif': ['image/webp', 'image/jpeg'],
+};
+
+export const isLossyType = (type: OutputType) => lossyTypes.includes(type);
+
+/**
+ * Colour to draw behind the banner for an output type. JPEG has no alpha channel, so
+ * letterbox bars and transparent areas would otherwise come out black; other types keep them.
+ */
+export const getBackgroundForType = (type: OutputType) => type === 'image/jpeg' ? '#ffffff' : undefined;
+
+/**
+ * Output type used when none is chosen: keep the input type when it can be encoded.
+ * `isSupported` lets browsers rule out types their canvas can't produce (AVIF mostly).
+ */
+export const getDefaultOutputType = (inputType: string, isSupported: (type: OutputType) => boolean = () => true): OutputType => {
+  const match = outputTypes.find(t => t.value === inputType);
+  return match && isSupported(match.value) ? match.value : 'image/jpeg';
+};
+
+/** Anything an encoder produces: a Blob in the browser, a wrapped Buffer in Node. */
+export interface EncodedImage {
+  size: number;
+  type: string;
+}
+
+export type Encoder<T extends EncodedImage = Blob> = (type: OutputType, quality: number) => Promise<T | null>;
+
+/** Called before every encode attempt; `attempt` is 1-based. */
+export type AttemptListener = (attempt: number, maxAttempts: number, type: OutputType, quality: number) => void;
+
+export interface EncodeResult<T extends EncodedImage = Blob> {
+  blob: T;
+  type: OutputType;
+  quality: number;
+  budgetMet?: boolean;
+}
+
+/** Upper bound on the encodes `encodeWithinBudget` may run, used for progress reporting. */
+export const getMaxAttempts = (preferredType: OutputType, budget?: number) => {
+  if (!budget) return 1;
+  return [preferredType, ...fallbackTypes[preferredType]].reduce(
+    (total, type) => total + (isLossyType(type) ? SEARCH_STEPS + 2 : 1),
+    0
+  );
+};
+
+/**
+ * Encodes at the requested quality, and when a byte budget is given searches for the
+ * highest quality that fits, falling back to other output types if the preferred one
+ * can't get small enough. Without a fit, the smallest attempt is returned.
+ */
+export const encodeWithinBudget = async <T extends EncodedImage = Blob>(
+  encode: Encoder<T>,
+  preferredType: OutputType,
+  quality: number,
+  budget?: number,
+  onAttempt?: AttemptListener
+): Promise<EncodeResult<T>> => {
+  const attempts: EncodeResult<T>[] = [];
+  const maxAttempts = getMaxAttempts(preferredType, budget);
+  let attemptCount = 0;
+
+  const attempt = async (type: OutputType, q: number): Promise<EncodeResult<T> | null> => {
+    attemptCount++;
+    onAttempt?.(Math.min(attemptCount, maxAttempts), maxAttempts, type, q);
+    const blob = await encode(type, q);
+    // Encoders that can't produce a type (browsers fall back to PNG) count as unsupported
+    if (!blob || blob.type !== type) return null;
+    const result = { blob, type, quality: q };
+    attempts.push(result);
+    return result;
+  };
+
+  const first = await attempt(preferredType, quality);
+  if (!budget) {
+    if (!first) throw new Error('Failed to create optimized blob');
+    return first;
+  }
+  if (first && first.blob.size <= budget) return { ...first, budgetMet: true };
+
+  for (const type of [preferredType, ...fallbackTypes[preferredType]]) {
+    if (!lossyTypes.includes(type)) {
+      if (type !== preferredType) {
+        const result = await attempt(type, quality);
+        if (result && result.blob.size <= budget) return { ...result, budgetMet: true };
+      }
+      continue;
+    }
+
+    let best: EncodeResult<T> | null = null;
+    if (type !== preferredType) {
+      const result = await attempt(type, quality);
+      if (!result) continue;
+      if (result.blob.size <= budget) return { ...result, budgetMet: true };
+    }
+
+    let low = MIN_QUALITY;
+    let high = quality - 1;
+    for (let step = 0; step < SEARCH_STEPS && low <= high; step++) {
+      const mid = Math.round((low + high) / 2);
+      const result = await attempt(type, mid);
+      if (!result) break;
+      if (result.blob.size <= budget) {
+        best = result;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (!best && low <= MIN_QUALITY) {
+      const result = await attempt(type, MIN_QUALITY);
+      if (result && result.blob.size <= budget) best = result;
+    }
+    if (best) return { ...best, budgetMet: true };
+  }
+
+  if (attempts.length === 0) throw new Error('Failed to create optimized blob');
+  const smallest = attempts.reduce((a, b) => (b.blob.size < a.blob.size ? b : a));
+  return { ...smallest, budgetMet: false };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createExportManifest, exportManifestToCsv, getExportPath, getVolumeFilename, splitExportVolumes, type ExportEntry
+} from './export';
+
+const entry: ExportEntry = {
+  source: 'Hero.png',
+  output: 'hero_300x250.webp',
+  format: { name: 'Medium Rectangle', width: 300, height: 250 },
+  type: 'image/webp',
+  quality: 82,
+  campaign: 'Summer Sale',
+  sourceSize: 204800,
+  size: 40960,
+};
+
+describe('getExportPath', () => {
+  it('puts outputs into the folder for the layout', () => {
+    expect(getExportPath(entry, 'flat')).toBe('hero_300x250.webp');
+    expect(getExportPath(entry, 'source')).toBe('hero/hero_300x250.webp');
+    expect(getExportPath({ ...entry, sourcePath: 'creatives/Spring/Hero.png' }, 'folders')).toBe('creatives/spring/hero_300x250.webp');
+    expect(getExportPath(entry, 'folders')).toBe('hero_300x250.webp');
+    expect(getExportPath(entry, 'format')).toBe('300x250/hero_300x250.webp');
+    expect(getExportPath(entry, 'campaign')).toBe('summer-sale/hero_300x250.webp');
+    expect(getExportPath({ ...entry, campaign: undefined }, 'campaign')).toBe('no-campaign/hero_300x250.webp');
+  });
+
+  it('keeps the case of renamed outputs', () => {
+    expect(getExportPath({ ...entry, output: 'HERO_300x250.webp' }, 'flat')).toBe('HERO_300x250.webp');
+    expect(getExportPath({ ...entry, output: 'Hero Banner.webp' }, 'source')).toBe('hero/Hero Banner.webp');
+  });
+});
+
+describe('createExportManifest', () => {
+  it('lists every output under a unique path', () => {
+    const manifest = createExportManifest([entry, { ...entry, source: 'hero.jpg' }], 'format', new Date('2026-06-07T10:00:00Z'));
+    expect(manifest.createdAt).toBe('2026-06-07T10:00:00.000Z');
+    expect(manifest.files.map(file => file.path)).toEqual(['300x250/hero_300x250.webp', '300x250/hero_300x250-2.webp']);
+    expect(manifest.files[0]).toMatchObject({ source: 'Hero.png', format: 'Medium Rectangle', width: 300, height: 250, sourceSize: 204800, size: 40960 });
+  });
+});
+
+describe('exportManifestToCsv', () => {
+  it('writes a header and quotes fields that need it', () => {
+    const manifest = createExportManifest([{ ...entry, source: 'Hero, "final".png' }], 'flat');
+    expect(exportManifestToCsv(manifest)).toBe(
+      'path,source,format,width,height,type,quality,source_bytes,output_bytes,volume\r\n' +
+      'hero_300x250.webp,"Hero, ""final"".png",Medium Rectangle,300,250,image/webp,82,204800,40960,1\r\n'
+    );
+  });
+});
+
+describe('splitExportVolumes', () => {
+  const sizes = [400, 300, 500, 1200, 100];
+  const manifest = createExportManifest(sizes.map((size, i) => ({ ...entry, output: `b${i}.webp`, size })), 'flat');
+
+  it('starts a new volume when the next file would not fit', () => {
+    const split = splitExportVolumes(manifest, 1000);
+    expect(split.volumes).toBe(4);
+    expect(split.files.map(file => file.volume)).toEqual([1, 1, 2, 3, 4]);
+  });
+
+  it('keeps a single volume without a limit', () => {
+    expect(splitExportVolumes(manifest, undefined)).toBe(manifest);
+  });
+});
+
+describe('getVolumeFilename', () => {
+  it('numbers volumes only when there is more than one', () => {
+    expect(getVolumeFilename('banners.zip', 1, 1)).toBe('banners.zip');
+    expect(getVolumeFilename('banners.zip', 2, 3)).toBe('banners.part2-of-3.zip');
+  });
+});
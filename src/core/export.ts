@@ -0,0 +1,143 @@
+import { dedupeFilenames, getBaseName, sanitizeFilename, slugify } from './filenames';
+import type { BannerFormat } from './formats';
+import { getInputFolder } from './inputs';
+
+export type ExportLayout = 'flat' | 'folders' | 'source' | 'format' | 'campaign';
+
+export const exportLayouts: { value: ExportLayout; label: string }[] = [
+  { value: 'flat', label: 'No folders' },
+  { value: 'folders', label: 'Mirror input folders' },
+  { value: 'source', label: 'Folder per source image' },
+  { value: 'format', label: 'Folder per banner size' },
+  { value: 'campaign', label: 'Folder per campaign' },
+];
+
+export const EXPORT_MANIFEST_FILENAME = 'manifest.json';
+export const EXPORT_CSV_FILENAME = 'manifest.csv';
+
+/** Campaign folder for outputs made without one. */
+const NO_CAMPAIGN_FOLDER = 'no-campaign';
+
+/** One output as it goes into an export. */
+export interface ExportEntry {
+  /** Name of the uploaded image. */
+  source: string;
+  /** Where the image sat in a dropped folder or ZIP, e.g. `spring/en/hero.png`. */
+  sourcePath?: string;
+  /** Output name as typed or rendered from the template; may already contain folders. */
+  output: string;
+  format: Pick<BannerFormat, 'width' | 'height'> & { name?: string };
+  type: string;
+  quality?: number;
+  campaign?: string;
+  sourceSize: number;
+  size?: number;
+}
+
+export interface ExportManifestFile {
+  path: string;
+  /** Source name, with its folders when it came from a folder or ZIP. */
+  source: string;
+  format: string;
+  width: number;
+  height: number;
+  type: string;
+  quality?: number;
+  sourceSize: number;
+  size?: number;
+  /** ZIP volume holding the file, from 1. */
+  volume: number;
+}
+
+export interface ExportManifest {
+  version: 1;
+  createdAt: string;
+  layout: ExportLayout;
+  volumes: number;
+  files: ExportManifestFile[];
+}
+
+const getLayoutFolder = (entry: ExportEntry, layout: ExportLayout) => {
+  switch (layout) {
+    case 'folders': return getInputFolder(entry.sourcePath ?? '');
+    case 'source': return getBaseName(entry.source);
+    case 'format': return `${entry.format.width}x${entry.format.height}`;
+    case 'campaign': return slugify(entry.campaign ?? '') || NO_CAMPAIGN_FOLDER;
+    case 'flat':
+    default: return '';
+  }
+};
+
+/**
+ * Sanitized path of one output inside the export, before de-duplication. Layout folders are
+ * lowercased; the output name keeps the case it was given, e.g. by a bulk rename.
+ */
+export const getExportPath = (entry: ExportEntry, layout: ExportLayout) => {
+  const folder = getLayoutFolder(entry, layout).toLowerCase();
+  return sanitizeFilename(folder ? `${folder}/${entry.output}` : entry.output, entry.type, getBaseName(entry.source));
+};
+
+/** Lists every output under its final, de-duplicated path, in the order given. */
+export const createExportManifest = (entries: ExportEntry[], layout: ExportLayout, createdAt = new Date()): ExportManifest => {
+  const paths = dedupeFilenames(entries.map(entry => getExportPath(entry, layout)));
+  return {
+    version: 1,
+    createdAt: createdAt.toISOString(),
+    layout,
+    volumes: entries.length > 0 ? 1 : 0,
+    files: entries.map((entry, i) => ({
+      path: paths[i],
+      source: entry.sourcePath ?? entry.source,
+      format: entry.format.name ?? `${entry.format.width}x${entry.format.height}`,
+      width: entry.format.width,
+      height: entry.format.height,
+      type: entry.type,
+      quality: entry.quality,
+      sourceSize: entry.sourceSize,
+      size: entry.size,
+      volume: 1,
+    })),
+  };
+};
+
+/**
+ * Spreads the files over volumes of at most `maxVolumeSize` bytes, in order. A file larger
+ * than the limit gets a volume to itself; without a limit everything stays in volume 1.
+ */
+export const splitExportVolumes = (manifest: ExportManifest, maxVolumeSize?: number): ExportManifest => {
+  if (!maxVolumeSize) return manifest;
+  let volume = manifest.files.length > 0 ? 1 : 0;
+  let volumeSize = 0;
+  const files = manifest.files.map(file => {
+    const size = file.size ?? 0;
+    if (volumeSize > 0 && volumeSize + size > maxVolumeSize) {
+      volume++;
+      volumeSize = 0;
+    }
+    volumeSize += size;
+    return { ...file, volume };
+  });
+  return { ...manifest, volumes: volume, files };
+};
+
+/** `banners.zip` becomes `banners.part2-of-3.zip`; single-volume exports keep the name. */
+export const getVolumeFilename = (filename: string, volume: number, volumes: number) => {
+  if (volumes <= 1) return filename;
+  return `${getBaseName(filename)}.part${volume}-of-${volumes}.zip`;
+};
+
+const csvHeader = ['path', 'source', 'format', 'width', 'height', 'type', 'quality', 'source_bytes', 'output_bytes', 'volume'];
+
+const escapeCsvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The manifest as CSV with a header row, for spreadsheets. */
+export const exportManifestToCsv = (manifest: ExportManifest) =>
+  [
+    csvHeader,
+    ...manifest.files.map(file => [
+      file.path, file.source, file.format, file.width, file.height, file.type, file.quality, file.sourceSize, file.size, file.volume,
+    ]),
+  ].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
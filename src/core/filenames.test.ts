@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildOutputFilename, dedupeFilenames, getBaseName, getFileExtension, getFilenameIssues, getSourceHash, getSourceIndex, getUnknownTemplateTokens,
+  replaceExtension, sanitizeFilename
+} from './filenames';
+
+describe('getFileExtension', () => {
+  it('maps output types and defaults to jpeg', () => {
+    expect(getFileExtension('image/png')).toBe('png');
+    expect(getFileExtension('image/avif')).toBe('avif');
+    expect(getFileExtension('image/gif')).toBe('gif');
+    expect(getFileExtension('image/bmp')).toBe('jpeg');
+  });
+});
+
+describe('getBaseName', () => {
+  it('strips only the last extension', () => {
+    expect(getBaseName('hero.final.png')).toBe('hero.final');
+    expect(getBaseName('README')).toBe('README');
+    expect(getBaseName('.env')).toBe('.env');
+  });
+});
+
+describe('buildOutputFilename', () => {
+  it('appends the banner size and lowercases', () => {
+    expect(buildOutputFilename('Summer Sale.PNG', { width: 728, height: 90 }, 'image/webp')).toBe('summer sale_728x90.webp');
+  });
+
+  it('fills in a custom template and keeps unknown tokens', () => {
+    expect(buildOutputFilename('hero.png', { width: 300, height: 250 }, 'image/jpeg', 'MREC/{name}-{h}x{w}-{x}')).toBe('mrec/hero-250x300-{x}.jpeg');
+  });
+});
+
+describe('replaceExtension', () => {
+  it('swaps a matching extension', () => {
+    expect(replaceExtension('hero_728x90.png', 'image/png', 'image/webp')).toBe('hero_728x90.webp');
+  });
+
+  it('leaves custom extensions alone', () => {
+    expect(replaceExtension('hero.jpg', 'image/jpeg', 'image/webp')).toBe('hero.jpg');
+  });
+});
+
+describe('buildOutputFilename tokens', () => {
+  const format = { name: 'Medium Rectangle', width: 300, height: 250 };
+  const context = { campaign: 'Summer Sale 2026', date: new Date(2026, 5, 7), quality: 82, index: 3, hash: 'a1b2c3d4' };
+
+  it('fills in every token', () => {
+    expect(buildOutputFilename('Hero.png', format, 'image/webp', '{campaign}/{format}_{name}_{w}x{h}_{date}_q{quality}_{index}_{hash}', context))
+      .toBe('summer-sale-2026/medium-rectangle_hero_300x250_2026-06-07_q82_3_a1b2c3d4.webp');
+  });
+
+  it('marks high-density outputs', () => {
+    expect(buildOutputFilename('logo.svg', format, 'image/png', undefined, { pixelRatio: 2 })).toBe('logo_300x250@2x.png');
+  });
+
+  it('keeps token values from escaping the output folder', () => {
+    expect(buildOutputFilename('../../evil.png', format, 'image/png', '{name}_{w}x{h}')).toBe('evil_300x250.png');
+  });
+
+  it('keeps names of object properties as unknown tokens', () => {
+    expect(buildOutputFilename('hero.png', format, 'image/png', '{name}_{constructor}_{toString}')).toBe('hero_{constructor}_{tostring}.png');
+  });
+
+  it('drops the separators left by empty tokens', () => {
+    expect(buildOutputFilename('hero.png', format, 'image/png', '{campaign}_{name}__{index}')).toBe('hero.png');
+    expect(buildOutputFilename('hero.png', format, 'image/png', '{campaign}')).toBe('hero.png');
+    expect(buildOutputFilename('hero.png', format, 'image/png', '{name}_{campaign}-{index}_{w}')).toBe('hero_300.png');
+    expect(buildOutputFilename('hero.png', format, 'image/png', '{campaign}{index}_{name}')).toBe('hero.png');
+  });
+
+  it('leaves repeated separators in the source name and literal text alone', () => {
+    expect(buildOutputFilename('hero__v2.png', format, 'image/png')).toBe('hero__v2_300x250.png');
+    expect(buildOutputFilename('hero.png', format, 'image/png', '{name}--{campaign}--final')).toBe('hero--final.png');
+  });
+});
+
+describe('getSourceIndex', () => {
+  it('numbers sources in the order they were added, once each', () => {
+    const sources = ['hero', 'hero', 'promo', 'hero', 'logo'];
+    expect(sources.map(source => getSourceIndex(sources, source))).toEqual([1, 1, 2, 1, 3]);
+    expect(getSourceIndex(sources, 'new')).toBe(4);
+  });
+});
+
+describe('getUnknownTemplateTokens', () => {
+  it('lists tokens that are not supported', () => {
+    expect(getUnknownTemplateTokens('{name}_{size}_{w}{ext}')).toEqual(['size', 'ext']);
+  });
+});
+
+describe('getSourceHash', () => {
+  it('returns the first 8 hex digits of the SHA-256', async () => {
+    expect(await getSourceHash(new TextEncoder().encode('banner'))).toBe('8c7ed2d9');
+  });
+});
+
+describe('getFilenameIssues', () => {
+  it('accepts safe names, folders and .jpg for JPEG', () => {
+    expect(getFilenameIssues('summer/hero_728x90.jpg', 'image/jpeg')).toEqual([]);
+  });
+
+  it('reports unsafe paths, reserved characters and the wrong extension', () => {
+    expect(getFilenameIssues('../hero:final?.png', 'image/webp')).toEqual([
+      "Folders can't be empty, '.' or '..'",
+      "Can't contain : ?",
+      'Extension should be .webp',
+    ]);
+    expect(getFilenameIssues('CON.png', 'image/png')).toEqual(['CON.png is reserved on Windows']);
+    expect(getFilenameIssues(' .png', 'image/png')).toEqual(['Name is empty']);
+  });
+});
+
+describe('sanitizeFilename', () => {
+  it('strips dangerous path segments and reserved characters', () => {
+    expect(sanitizeFilename('/../summer//hero:final?.webp', 'image/webp')).toBe('summer/hero-final-.webp');
+    expect(sanitizeFilename('aux.png', 'image/png')).toBe('_aux.png');
+  });
+
+  it('makes the extension match the output type', () => {
+    expect(sanitizeFilename('hero.png', 'image/webp')).toBe('hero.webp');
+    expect(sanitizeFilename('hero.v2', 'image/jpeg')).toBe('hero.v2.jpeg');
+    expect(sanitizeFilename('hero.JPG', 'image/jpeg')).toBe('hero.JPG');
+    expect(sanitizeFilename('..', 'image/png')).toBe('banner.png');
+  });
+});
+
+describe('dedupeFilenames', () => {
+  it('numbers later duplicates without clashing with existing names', () => {
+    expect(dedupeFilenames(['a/hero.png', 'A/Hero.png', 'a/hero-2.png', 'a/hero.png'])).toEqual([
+      'a/hero.png', 'A/Hero-3.png', 'a/hero-2.png', 'a/hero-4.png',
+    ]);
+  });
+});
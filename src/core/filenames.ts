@@ -0,0 +1,232 @@
+import type { BannerFormat } from './formats';
+
+export const getFileExtension = (mimeType: string) => {
+  switch (mimeType) {
+    case 'image/png': return 'png';
+    case 'image/webp': return 'webp';
+    case 'image/avif': return 'avif';
+    case 'image/gif': return 'gif';
+    case 'image/jpeg':
+    default: return 'jpeg';
+  }
+};
+
+/** File name without its last extension; names without one are returned as is. */
+export const getBaseName = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.substring(0, dot) : filename;
+};
+
+/** Output name without its extension; `{name}` is the source name without its extension. */
+export const DEFAULT_FILENAME_TEMPLATE = '{name}_{w}x{h}';
+
+export const filenameTokens = [
+  { token: 'name', description: 'Source file name without extension' },
+  { token: 'w', description: 'Banner width' },
+  { token: 'h', description: 'Banner height' },
+  { token: 'format', description: 'Banner format name' },
+  { token: 'campaign', description: 'Campaign name' },
+  { token: 'date', description: 'Today, as YYYY-MM-DD' },
+  { token: 'quality', description: 'Encoder quality' },
+  { token: 'index', description: 'Position of the source image in the batch, from 1' },
+  { token: 'hash', description: 'First 8 hex digits of the source SHA-256' },
+] as const;
+
+export type FilenameToken = typeof filenameTokens[number]['token'];
+
+/** Values for the tokens that don't come from the source name or the format. */
+export interface FilenameContext {
+  campaign?: string;
+  date?: Date;
+  quality?: number;
+  index?: number;
+  hash?: string;
+  /** Outputs rendered above 1x get an `@2x`-style suffix. */
+  pixelRatio?: number;
+}
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Value of `{index}`: the position of `source` among the distinct sources of the batch, from 1,
+ * in the order they were added. Every output of one source shares the number; a source not
+ * in the batch yet gets the next one.
+ */
+export const getSourceIndex = <T>(sources: T[], source: T) => {
+  const distinct = [...new Set(sources)];
+  const position = distinct.indexOf(source);
+  return (position >= 0 ? position : distinct.length) + 1;
+};
+
+/** Lowercase, dash-separated form used for free-text tokens like `{format}` and `{campaign}`. */
+export const slugify = (value: string) =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const formatDate = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+
+/** Tokens in `template` that `buildOutputFilename` won't replace. */
+export const getUnknownTemplateTokens = (template: string) =>
+  [...template.matchAll(TOKEN_PATTERN)]
+    .map(match => match[1])
+    .filter(token => !filenameTokens.some(t => t.token === token));
+
+/**
+ * Substitutes the tokens, dropping each empty one together with the separators next to it:
+ * those before it in the template, or else those after. Literal text and token values are
+ * never touched, so `hero__v2` stays as it is.
+ */
+const fillTemplate = (template: string, tokens: Record<FilenameToken, string>) => {
+  let name = '';
+  let dropNextSeparators = false;
+  let last = 0;
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    let literal = template.slice(last, match.index);
+    if (dropNextSeparators && literal) {
+      literal = literal.replace(/^[-_.]+/, '');
+      dropNextSeparators = false;
+    }
+    name += literal;
+    last = match.index! + match[0].length;
+
+    const [token, key] = match;
+    const value = Object.prototype.hasOwnProperty.call(tokens, key) ? tokens[key as FilenameToken] : token;
+    if (value) {
+      name += value;
+      dropNextSeparators = false;
+    } else if (/[-_.]$/.test(literal)) {
+      name = name.slice(0, name.length - literal.length) + literal.replace(/[-_.]+$/, '');
+    } else {
+      dropNextSeparators = true;
+    }
+  }
+  const rest = template.slice(last);
+  return name + (dropNextSeparators ? rest.replace(/^[-_.]+/, '') : rest);
+};
+
+/**
+ * Output name from a template, e.g. `hero_728x90.jpeg` with the default one. Tokens without
+ * a value are dropped along with the separator they leave behind; unknown tokens are kept.
+ */
+export const buildOutputFilename = (
+  sourceName: string,
+  format: Pick<BannerFormat, 'width' | 'height'> & { name?: string },
+  outputType: string,
+  template = DEFAULT_FILENAME_TEMPLATE,
+  context: FilenameContext = {}
+) => {
+  const tokens: Record<FilenameToken, string> = {
+    name: getBaseName(sourceName),
+    w: String(format.width),
+    h: String(format.height),
+    format: slugify(format.name ?? `${format.width}x${format.height}`),
+    campaign: slugify(context.campaign ?? ''),
+    date: formatDate(context.date ?? new Date()),
+    quality: context.quality !== undefined ? String(context.quality) : '',
+    index: context.index !== undefined ? String(context.index) : '',
+    hash: context.hash ?? '',
+  };
+  const name = fillTemplate(template, tokens).replace(/(^|\/)[-_.]+|[-_.]+($|\/)/g, '$1$2');
+  const suffix = context.pixelRatio && context.pixelRatio > 1 ? `@${context.pixelRatio}x` : '';
+  // Token values come from user input (source names, campaigns), so they can't be trusted to form a safe path
+  return sanitizeFilename(`${name || getBaseName(sourceName)}${suffix}.${getFileExtension(outputType)}`, outputType).toLowerCase();
+};
+
+/** Short content hash for the `{hash}` token; works in browsers and Node alike. */
+export const getSourceHash = async (data: ArrayBuffer | Uint8Array) => {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest).slice(0, 4), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Swaps the extension when the output type changes, leaving custom extensions alone. */
+export const replaceExtension = (filename: string, fromType: string, toType: string) => {
+  const from = `.${getFileExtension(fromType)}`;
+  if (!filename.endsWith(from)) return filename;
+  return filename.slice(0, -from.length) + `.${getFileExtension(toType)}`;
+};
+
+/** Longest path segment most file systems accept. */
+export const MAX_FILENAME_LENGTH = 255;
+
+const RESERVED_NAME_PATTERN = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(?=\.|$)/i;
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'avif', 'gif'];
+
+/** Characters Windows, macOS or common unzip tools refuse in a file name. */
+const isReservedCharacter = (char: string) => '<>:"|?*\\'.includes(char) || char.charCodeAt(0) < 32;
+
+/** Extensions accepted for an output type; JPEG keeps the common `.jpg` too. */
+const getExtensionAliases = (mimeType: string) => mimeType === 'image/jpeg' ? ['jpeg', 'jpg'] : [getFileExtension(mimeType)];
+
+/** Unlike `getBaseName`, a leading dot starts the extension: `.jpeg` has no name. */
+const splitExtension = (filename: string): [string, string] => {
+  const dot = filename.lastIndexOf('.');
+  return dot >= 0 ? [filename.substring(0, dot), filename.substring(dot + 1)] : [filename, ''];
+};
+
+/** Problems with a typed output name, most serious first; empty when it can be written as is. */
+export const getFilenameIssues = (filename: string, outputType: string): string[] => {
+  const segments = filename.split('/');
+  const [stem, extension] = splitExtension(segments[segments.length - 1]);
+  if (!stem.trim() || stem === '.' || stem === '..') return ['Name is empty'];
+
+  const issues: string[] = [];
+  if (segments.slice(0, -1).some(segment => !segment.trim() || segment === '.' || segment === '..')) {
+    issues.push("Folders can't be empty, '.' or '..'");
+  }
+  const reserved = [...new Set([...filename].filter(isReservedCharacter))];
+  if (reserved.length > 0) {
+    issues.push(`Can't contain ${reserved.map(char => char.charCodeAt(0) < 32 ? 'control characters' : char).join(' ')}`);
+  }
+  const reservedName = segments.find(segment => RESERVED_NAME_PATTERN.test(segment));
+  if (reservedName) issues.push(`${reservedName} is reserved on Windows`);
+  if (segments.some(segment => /[. ]$/.test(segment) && segment !== '.' && segment !== '..')) issues.push("Names can't end with a dot or space");
+  if (segments.some(segment => segment.length > MAX_FILENAME_LENGTH)) {
+    issues.push(`Names can't be longer than ${MAX_FILENAME_LENGTH} characters`);
+  }
+  if (!getExtensionAliases(outputType).includes(extension.toLowerCase())) {
+    issues.push(`Extension should be .${getFileExtension(outputType)}`);
+  }
+  return issues;
+};
+
+/**
+ * Safe relative path for a download or ZIP entry: reserved characters become `-`, `.`/`..`
+ * and empty folders are dropped, and the extension is made to match `outputType`. Other
+ * image extensions are replaced; anything else is kept as part of the name.
+ */
+export const sanitizeFilename = (filename: string, outputType: string, fallback = 'banner') => {
+  const segments = filename
+    .split('/')
+    .map(segment => [...segment].map(char => isReservedCharacter(char) ? '-' : char).join('').trim().replace(/[. ]+$/, ''))
+    .filter(Boolean)
+    .map(segment => segment.replace(RESERVED_NAME_PATTERN, '_$1'));
+
+  const aliases = getExtensionAliases(outputType);
+  let [stem, extension] = splitExtension(segments.pop() ?? '');
+  if (!aliases.includes(extension.toLowerCase())) {
+    if (extension && !IMAGE_EXTENSIONS.includes(extension.toLowerCase())) stem = `${stem}.${extension}`;
+    extension = aliases[0];
+  }
+  stem = (stem.trim() || fallback).slice(0, MAX_FILENAME_LENGTH - extension.length - 1);
+  return [...segments, `${stem}.${extension}`].join('/');
+};
+
+/** Numbers later duplicates (`-2`, `-3`, ignoring case) so no ZIP entry overwrites another. */
+export const dedupeFilenames = (paths: string[]) => {
+  const taken = new Set(paths.map(path => path.toLowerCase()));
+  const used = new Set<string>();
+  return paths.map(path => {
+    let candidate = path;
+    if (used.has(path.toLowerCase())) {
+      const slash = path.lastIndexOf('/') + 1;
+      const [stem, extension] = splitExtension(path.substring(slash));
+      const suffix = extension ? `.${extension}` : '';
+      for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+        candidate = `${path.substring(0, slash)}${stem}-${n}${suffix}`;
+      }
+      taken.add(candidate.toLowerCase());
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createBannerFormat, defaultBannerFormats, findBestFormat, formatFileSize, getAspectRatio } from './formats';
+
+describe('getAspectRatio', () => {
+  it('rounds to two decimals', () => {
+    expect(getAspectRatio(728, 90)).toBe(8.09);
+    expect(getAspectRatio(1100, 361)).toBe(3.05);
+  });
+});
+
+describe('createBannerFormat', () => {
+  it('derives the aspect ratio and a default name', () => {
+    const format = createBannerFormat({ name: ' ', width: 300, height: 250, useCase: ' Sidebar ' }, 'mrec');
+    expect(format).toMatchObject({
+      id: 'mrec',
+      name: 'Banner 300x250',
+      aspectRatio: 1.2,
+      useCase: 'Sidebar',
+      enabled: true,
+    });
+    expect(format).not.toHaveProperty('maxFileSize');
+  });
+
+  it('keeps a max file size when given', () => {
+    const format = createBannerFormat({ name: 'Email', width: 600, height: 200, useCase: '', maxFileSize: 100 * 1024 });
+    expect(format.maxFileSize).toBe(100 * 1024);
+  });
+});
+
+describe('findBestFormat', () => {
+  it('picks the closest aspect ratio', () => {
+    expect(findBestFormat(1456, 180, defaultBannerFormats).name).toBe('Banner 728x90');
+    expect(findBestFormat(1200, 1000, defaultBannerFormats).name).toBe('Banner 600x500');
+    expect(findBestFormat(3000, 1000, defaultBannerFormats).name).toBe('Banner 1100x361');
+  });
+
+  it('breaks ratio ties by the closest pixel size', () => {
+    const small = createBannerFormat({ name: 'Small', width: 300, height: 250, useCase: '' }, 'small');
+    const large = createBannerFormat({ name: 'Large', width: 1200, height: 1000, useCase: '' }, 'large');
+    expect(findBestFormat(320, 266, [large, small]).id).toBe('small');
+    expect(findBestFormat(1300, 1083, [small, large]).id).toBe('large');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses KB below a megabyte and MB above', () => {
+    expect(formatFileSize(150 * 1024)).toBe('150.0 KB');
+    expect(formatFileSize(8 * 1024 * 1024)).toBe('8.0 MB');
+  });
+});
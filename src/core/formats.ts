@@ -0,0 +1,75 @@
+/** Limits a network puts on animated banners; all optional. */
+export interface AnimationRules {
+  /** Longest running time in milliseconds, every loop included. */
+  maxDuration?: number;
+  /** Most times the animation may play. */
+  maxLoops?: number;
+  /** Highest frame rate, in frames per second. */
+  maxFrameRate?: number;
+}
+
+export interface BannerFormat {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  aspectRatio: number;
+  useCase: string;
+  enabled: boolean;
+  /** Ad network or platform the size comes from, for preset formats. */
+  network?: string;
+  /** Maximum file weight in bytes accepted by the network. */
+  maxFileSize?: number;
+  /** What animated outputs have to meet, for preset formats whose network sets limits. */
+  animation?: AnimationRules;
+  /** Preset pack the format was shipped in. */
+  packId?: string;
+}
+
+export type BannerFormatInput = Pick<BannerFormat, 'name' | 'width' | 'height' | 'useCase' | 'maxFileSize'>;
+
+export const getAspectRatio = (width: number, height: number) => Math.round((width / height) * 100) / 100;
+
+export const createBannerFormat = (input: BannerFormatInput, id = `custom-${Math.random().toString(36).slice(2)}`): BannerFormat => ({
+  id,
+  name: input.name.trim() || `Banner ${input.width}x${input.height}`,
+  width: input.width,
+  height: input.height,
+  aspectRatio: getAspectRatio(input.width, input.height),
+  useCase: input.useCase.trim(),
+  enabled: true,
+  ...(input.maxFileSize ? { maxFileSize: input.maxFileSize } : {}),
+});
+
+export const defaultBannerFormats: BannerFormat[] = [
+  { name: 'Banner 600x500', width: 600, height: 500, useCase: 'Standard Square Banner' },
+  { name: 'Banner 640x200', width: 640, height: 200, useCase: 'Horizontal Rectangular Banner' },
+  { name: 'Banner 728x90', width: 728, height: 90, useCase: 'Leaderboard Horizontal Banner' },
+  { name: 'Banner 420x200', width: 420, height: 200, useCase: 'Medium Horizontal Banner' },
+  { name: 'Banner 1100x361', width: 1100, height: 361, useCase: 'Large Header Banner' },
+  { name: 'Banner 630x250', width: 630, height: 250, useCase: 'Wide Content Banner' }
+].map(format => createBannerFormat(format, `banner-${format.width}x${format.height}`));
+
+/**
+ * Picks the format whose aspect ratio is closest to the source image. Formats with the
+ * same ratio (common once preset packs are enabled) are ranked by how close their
+ * dimensions are to the source, so small images don't get matched to huge slots.
+ */
+export const findBestFormat = (width: number, height: number, formats: BannerFormat[]): BannerFormat => {
+  const aspectRatio = width / height;
+  return formats.reduce((best, format) => {
+    const currentDiff = Math.abs(aspectRatio - format.aspectRatio);
+    const bestDiff = Math.abs(aspectRatio - best.aspectRatio);
+    if (currentDiff === bestDiff) {
+      const currentSizeDiff = Math.abs(width * height - format.width * format.height);
+      const bestSizeDiff = Math.abs(width * height - best.width * best.height);
+      return currentSizeDiff < bestSizeDiff ? format : best;
+    }
+    return currentDiff < bestDiff ? format : best;
+  });
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+};
@@ -0,0 +1,12 @@
+export * from './animation';
+export * from './config';
+export * from './crop';
+export * from './encode';
+export * from './export';
+export * from './filenames';
+export * from './formats';
+export * from './inputs';
+export * from './presets';
+export * from './rename';
+export * from './status';
+export * from './svg';
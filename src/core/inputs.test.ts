@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPastedFilename, getHtmlDataUriImages, getImageMimeType, getInputFolder, isIgnoredInputPath, isZipFile, parseImageDataUri
+} from './inputs';
+
+describe('getImageMimeType', () => {
+  it('maps image extensions regardless of case', () => {
+    expect(getImageMimeType('spring/Hero.JPG')).toBe('image/jpeg');
+    expect(getImageMimeType('logo.svg')).toBe('image/svg+xml');
+    expect(getImageMimeType('brief.pdf')).toBeUndefined();
+    expect(getImageMimeType('README')).toBeUndefined();
+  });
+});
+
+describe('isZipFile', () => {
+  it('recognizes archives by type or extension', () => {
+    expect(isZipFile('creatives.zip', '')).toBe(true);
+    expect(isZipFile('creatives', 'application/x-zip-compressed')).toBe(true);
+    expect(isZipFile('hero.png', 'image/png')).toBe(false);
+  });
+});
+
+describe('isIgnoredInputPath', () => {
+  it('skips hidden files and macOS metadata', () => {
+    expect(isIgnoredInputPath('__MACOSX/spring/._hero.png')).toBe(true);
+    expect(isIgnoredInputPath('spring/.DS_Store')).toBe(true);
+    expect(isIgnoredInputPath('spring/en/hero.png')).toBe(false);
+  });
+});
+
+describe('getInputFolder', () => {
+  it('returns the folders above the file', () => {
+    expect(getInputFolder('creatives.zip/spring/hero.png')).toBe('creatives.zip/spring');
+    expect(getInputFolder('hero.png')).toBe('');
+  });
+});
+
+describe('createPastedFilename', () => {
+  const date = new Date(2026, 5, 7, 14, 25, 1);
+
+  it('stamps the name with the date and time', () => {
+    expect(createPastedFilename('image/png', date)).toBe('pasted-2026-06-07-142501.png');
+    expect(createPastedFilename('image/jpeg', date, 2)).toBe('pasted-2026-06-07-142501-3.jpg');
+  });
+});
+
+describe('parseImageDataUri', () => {
+  it('decodes base64 and percent-encoded payloads', () => {
+    expect(parseImageDataUri('data:image/png;base64,iVBORw==')).toEqual({ type: 'image/png', data: Uint8Array.from([0x89, 0x50, 0x4e, 0x47]) });
+    const svg = parseImageDataUri('data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E');
+    expect(svg?.type).toBe('image/svg+xml');
+    expect(new TextDecoder().decode(svg?.data)).toBe('<svg/>');
+  });
+
+  it('rejects non-image and malformed URIs', () => {
+    expect(parseImageDataUri('data:text/html,<b>hi</b>')).toBeNull();
+    expect(parseImageDataUri('https://example.com/hero.png')).toBeNull();
+    expect(parseImageDataUri('data:image/png;base64,!!!')).toBeNull();
+  });
+});
+
+describe('getHtmlDataUriImages', () => {
+  it('collects inline image sources and ignores linked ones', () => {
+    const html = '<meta charset="utf-8"><img alt="a" src="data:image/png;base64,AAAA"><IMG SRC=\'https://example.com/b.png\'><img src=\'data:image/gif;base64,R0lG\'>';
+    expect(getHtmlDataUriImages(html)).toEqual(['data:image/png;base64,AAAA', 'data:image/gif;base64,R0lG']);
+  });
+});
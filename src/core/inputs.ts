@@ -0,0 +1,64 @@
+const imageTypesByExtension: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+/** Image type guessed from the extension, for files read out of folders or archives without one. */
+export const getImageMimeType = (path: string): string | undefined => {
+  const dot = path.lastIndexOf('.');
+  return dot >= 0 ? imageTypesByExtension[path.substring(dot + 1).toLowerCase()] : undefined;
+};
+
+export const isZipFile = (name: string, type: string) =>
+  type === 'application/zip' || type === 'application/x-zip-compressed' || /\.zip$/i.test(name);
+
+/** Hidden files and the resource forks macOS adds to archives, which are never creatives. */
+export const isIgnoredInputPath = (path: string) =>
+  path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+
+/** Folder part of a relative input path; empty for loose files. */
+export const getInputFolder = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return slash >= 0 ? path.substring(0, slash) : '';
+};
+
+const getImageExtension = (type: string) =>
+  Object.keys(imageTypesByExtension).find(extension => imageTypesByExtension[extension] === type) ?? 'png';
+
+/**
+ * Name for an image that arrived without one (pasted or dropped as a data URI), e.g.
+ * `pasted-2026-06-07-142501.png`. Later images from the same paste get `-2`, `-3`…
+ */
+export const createPastedFilename = (type: string, date = new Date(), index = 0) => {
+  const stamp = [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-') +
+    '-' + [date.getHours(), date.getMinutes(), date.getSeconds()].map(part => String(part).padStart(2, '0')).join('');
+  return `pasted-${stamp}${index > 0 ? `-${index + 1}` : ''}.${getImageExtension(type)}`;
+};
+
+const DATA_URI_PATTERN = /^data:(image\/[\w.+-]+)((?:;[\w-]+=[^;,]*)*)(;base64)?,(.*)$/s;
+
+/** Decodes a base64 or percent-encoded image data URI; anything else gives null. */
+export const parseImageDataUri = (uri: string): { type: string; data: Uint8Array } | null => {
+  const match = DATA_URI_PATTERN.exec(uri.trim());
+  if (!match) return null;
+  const [, type, , base64, payload] = match;
+  try {
+    if (base64) {
+      const binary = atob(payload.replace(/\s/g, ''));
+      return { type, data: Uint8Array.from(binary, char => char.charCodeAt(0)) };
+    }
+    return { type, data: new TextEncoder().encode(decodeURIComponent(payload)) };
+  } catch {
+    return null;
+  }
+};
+
+/** `src` values of the `<img>` tags in dropped or pasted HTML that carry the image inline. */
+export const getHtmlDataUriImages = (html: string) =>
+  [...html.matchAll(/<img\b[^>]*?\ssrc\s*=\s*(["'])(data:image\/.*?)\1/gi)].map(match => match[2].replace(/&amp;/g, '&'));
@@ -0,0 +1,83 @@
+import { createBannerFormat, type AnimationRules, type BannerFormat } from './formats';
+
+export interface PresetPack {
+  id: string;
+  name: string;
+  description: string;
+  formats: BannerFormat[];
+}
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+interface PresetDefinition {
+  name: string;
+  width: number;
+  height: number;
+  useCase: string;
+  network: string;
+  maxFileSize?: number;
+  animation?: AnimationRules;
+}
+
+const definePack = (id: string, name: string, description: string, presets: PresetDefinition[]): PresetPack => ({
+  id,
+  name,
+  description,
+  formats: presets.map(({ network, maxFileSize, animation, ...input }) => ({
+    ...createBannerFormat(input, `${id}-${input.width}x${input.height}`),
+    network,
+    maxFileSize,
+    animation,
+    packId: id,
+  })),
+});
+
+const iab = (name: string, width: number, height: number, useCase: string): PresetDefinition =>
+  ({ name, width, height, useCase, network: 'IAB', maxFileSize: 150 * KB, animation: { maxDuration: 15000, maxLoops: 3, maxFrameRate: 24 } });
+
+const gdn = (name: string, width: number, height: number, useCase: string): PresetDefinition =>
+  ({ name, width, height, useCase, network: 'Google Display Network', maxFileSize: 150 * KB, animation: { maxDuration: 30000, maxFrameRate: 5 } });
+
+export const presetPacks: PresetPack[] = [
+  definePack('iab', 'IAB Standard Display', 'IAB New Ad Portfolio fixed-size units with the 150 KB initial load limit; animations run at most 15 s, 3 loops and 24 fps.', [
+    iab('Medium Rectangle', 300, 250, 'In-content rectangle'),
+    iab('Large Rectangle', 336, 280, 'In-content rectangle'),
+    iab('Leaderboard', 728, 90, 'Top of page'),
+    iab('Super Leaderboard', 970, 90, 'Top of page, wide layouts'),
+    iab('Billboard', 970, 250, 'Premium top of page'),
+    iab('Half Page', 300, 600, 'Sidebar'),
+    iab('Wide Skyscraper', 160, 600, 'Sidebar'),
+    iab('Skyscraper', 120, 600, 'Narrow sidebar'),
+    iab('Mobile Leaderboard', 320, 50, 'Mobile top or bottom of screen'),
+    iab('Mobile Banner', 300, 50, 'Mobile inline'),
+  ]),
+  definePack('gdn', 'Google Display Network', 'Top-performing Google Ads uploaded image sizes, 150 KB maximum; animations stop within 30 s and run at 5 fps or slower.', [
+    gdn('GDN Square', 250, 250, 'Small square'),
+    gdn('GDN Small Square', 200, 200, 'Small square'),
+    gdn('GDN Inline Rectangle', 300, 250, 'Inline rectangle'),
+    gdn('GDN Large Rectangle', 336, 280, 'Large rectangle'),
+    gdn('GDN Banner', 468, 60, 'Classic banner'),
+    gdn('GDN Leaderboard', 728, 90, 'Leaderboard'),
+    gdn('GDN Large Leaderboard', 970, 90, 'Large leaderboard'),
+    gdn('GDN Billboard', 970, 250, 'Billboard'),
+    gdn('GDN Half Page', 300, 600, 'Half page'),
+    gdn('GDN Skyscraper', 160, 600, 'Wide skyscraper'),
+    gdn('GDN Mobile Banner', 320, 50, 'Mobile leaderboard'),
+    gdn('GDN Large Mobile Banner', 320, 100, 'Large mobile banner'),
+  ]),
+  definePack('social', 'Social & Open Graph', 'Link preview and feed image sizes for the major social networks.', [
+    { name: 'Open Graph Image', width: 1200, height: 630, useCase: 'Link previews (og:image)', network: 'Open Graph', maxFileSize: 8 * MB },
+    { name: 'X Summary Card', width: 1200, height: 628, useCase: 'Large image summary card', network: 'X', maxFileSize: 5 * MB },
+    { name: 'LinkedIn Share', width: 1200, height: 627, useCase: 'Shared link image', network: 'LinkedIn', maxFileSize: 5 * MB },
+    { name: 'Facebook Cover', width: 820, height: 312, useCase: 'Page cover photo', network: 'Facebook', maxFileSize: 8 * MB },
+    { name: 'Instagram Square', width: 1080, height: 1080, useCase: 'Feed post', network: 'Instagram', maxFileSize: 8 * MB },
+    { name: 'Instagram Story', width: 1080, height: 1920, useCase: 'Stories and Reels cover', network: 'Instagram', maxFileSize: 8 * MB },
+  ]),
+  definePack('email', 'Email Headers', 'Header images sized for the common 600–700px email body widths.', [
+    { name: 'Email Header 600', width: 600, height: 200, useCase: 'Standard email header', network: 'Email', maxFileSize: 100 * KB },
+    { name: 'Email Hero 600', width: 600, height: 300, useCase: 'Email hero image', network: 'Email', maxFileSize: 100 * KB },
+    { name: 'Email Header 640', width: 640, height: 200, useCase: 'Wide email header', network: 'Email', maxFileSize: 100 * KB },
+    { name: 'Email Header 700', width: 700, height: 250, useCase: 'Extra-wide email header', network: 'Email', maxFileSize: 100 * KB },
+  ]),
+];
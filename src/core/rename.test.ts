@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { defaultRenameOptions, renameFilenames, type RenameOptions } from './rename';
+
+const rename = (filenames: string[], options: Partial<RenameOptions>) =>
+  renameFilenames(filenames, { ...defaultRenameOptions, ...options });
+
+describe('renameFilenames', () => {
+  it('leaves names alone with the default options', () => {
+    expect(rename(['hero_728x90.jpeg'], {})).toEqual(['hero_728x90.jpeg']);
+  });
+
+  it('finds and replaces plain text, ignoring case by default', () => {
+    expect(rename(['Hero_728x90.jpeg', 'hero-hero.png'], { find: 'hero', replace: 'promo' }))
+      .toEqual(['promo_728x90.jpeg', 'promo-promo.png']);
+    expect(rename(['Hero_hero.png'], { find: 'hero', replace: 'x', matchCase: true })).toEqual(['Hero_x.png']);
+  });
+
+  it('treats regex characters literally unless regex is on', () => {
+    expect(rename(['a.b_728x90.png'], { find: '.', replace: '-' })).toEqual(['a-b_728x90.png']);
+    expect(rename(['hero_728x90.png'], { find: '(\\d+)x(\\d+)', replace: '$2by$1', useRegex: true }))
+      .toEqual(['hero_90by728.png']);
+  });
+
+  it('never touches the extension', () => {
+    expect(rename(['hero.jpeg'], { find: 'jpeg', replace: 'png' })).toEqual(['hero.jpeg']);
+    expect(rename(['summer/hero'], { suffix: '_v2' })).toEqual(['summer/hero_v2']);
+  });
+
+  it('transforms case', () => {
+    const names = ['Summer Sale_728x90.png'];
+    expect(rename(names, { caseTransform: 'upper' })).toEqual(['SUMMER SALE_728X90.png']);
+    expect(rename(names, { caseTransform: 'title' })).toEqual(['Summer Sale_728x90.png']);
+    expect(rename(names, { caseTransform: 'kebab' })).toEqual(['summer-sale-728x90.png']);
+    expect(rename(names, { caseTransform: 'snake' })).toEqual(['summer_sale_728x90.png']);
+  });
+
+  it('adds a prefix, suffix and sequential numbers', () => {
+    expect(rename(['a.png', 'b.png', 'c.png'], { prefix: 'fall_', numbering: true, numberStart: 9 }))
+      .toEqual(['fall_a_09.png', 'fall_b_10.png', 'fall_c_11.png']);
+    expect(rename(['a.png', 'b.png'], { numbering: true, numberPadding: 3, numberPosition: 'prefix', numberSeparator: '-' }))
+      .toEqual(['001-a.png', '002-b.png']);
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(() => rename(['a.png'], { find: '(', useRegex: true })).toThrow('Invalid regular expression');
+  });
+});
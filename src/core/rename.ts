@@ -0,0 +1,95 @@
+export type CaseTransform = 'none' | 'lower' | 'upper' | 'title' | 'kebab' | 'snake';
+
+export const caseTransforms: { value: CaseTransform; label: string }[] = [
+  { value: 'none', label: 'Keep case' },
+  { value: 'lower', label: 'lowercase' },
+  { value: 'upper', label: 'UPPERCASE' },
+  { value: 'title', label: 'Title Case' },
+  { value: 'kebab', label: 'kebab-case' },
+  { value: 'snake', label: 'snake_case' },
+];
+
+export interface RenameOptions {
+  find: string;
+  replace: string;
+  /** Treat `find` as a regular expression; `replace` may then use `$1`-style groups. */
+  useRegex: boolean;
+  matchCase: boolean;
+  caseTransform: CaseTransform;
+  prefix: string;
+  suffix: string;
+  numbering: boolean;
+  numberStart: number;
+  /** Minimum digits, zero-padded. */
+  numberPadding: number;
+  numberPosition: 'prefix' | 'suffix';
+  numberSeparator: string;
+}
+
+export const defaultRenameOptions: RenameOptions = {
+  find: '',
+  replace: '',
+  useRegex: false,
+  matchCase: false,
+  caseTransform: 'none',
+  prefix: '',
+  suffix: '',
+  numbering: false,
+  numberStart: 1,
+  numberPadding: 2,
+  numberPosition: 'suffix',
+  numberSeparator: '_',
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The find pattern, or null when there is nothing to find. Throws on an invalid regex. */
+export const getFindPattern = (options: Pick<RenameOptions, 'find' | 'useRegex' | 'matchCase'>) => {
+  if (!options.find) return null;
+  const flags = options.matchCase ? 'g' : 'gi';
+  try {
+    return new RegExp(options.useRegex ? options.find : escapeRegExp(options.find), flags);
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : options.find}`);
+  }
+};
+
+const splitWords = (value: string) => value.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+
+const transformCase = (value: string, transform: CaseTransform) => {
+  switch (transform) {
+    case 'lower': return value.toLowerCase();
+    case 'upper': return value.toUpperCase();
+    case 'title': return value.toLowerCase().replace(/(^|[^a-z0-9])([a-z])/g, (_, boundary: string, letter: string) => boundary + letter.toUpperCase());
+    case 'kebab': return splitWords(value).join('-').toLowerCase();
+    case 'snake': return splitWords(value).join('_').toLowerCase();
+    case 'none':
+    default: return value;
+  }
+};
+
+/** Splits off the last extension; folders from filename templates stay part of the stem. */
+const splitExtension = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot > filename.lastIndexOf('/') + 1 ? [filename.slice(0, dot), filename.slice(dot)] : [filename, ''];
+};
+
+/**
+ * Applies find/replace, case transform, prefix/suffix and numbering, in that order, to the
+ * name part of each file, keeping extensions. Numbers follow the order of `filenames`.
+ */
+export const renameFilenames = (filenames: string[], options: RenameOptions): string[] => {
+  const pattern = getFindPattern(options);
+  return filenames.map((filename, index) => {
+    const [name, extension] = splitExtension(filename);
+    let stem = pattern ? name.replace(pattern, options.replace) : name;
+    stem = `${options.prefix}${transformCase(stem, options.caseTransform)}${options.suffix}`;
+    if (options.numbering) {
+      const number = String(options.numberStart + index).padStart(options.numberPadding, '0');
+      stem = options.numberPosition === 'prefix'
+        ? `${number}${options.numberSeparator}${stem}`
+        : `${stem}${options.numberSeparator}${number}`;
+    }
+    return stem + extension;
+  });
+};
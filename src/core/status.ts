@@ -0,0 +1,2 @@
+/** Lifecycle of one banner job, shared by the browser queue and the HTTP API. */
+export type ProcessingStatus = 'queued' | 'processing' | 'paused' | 'completed' | 'error' | 'cancelled';
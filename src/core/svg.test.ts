@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getSvgIntrinsicSize, getSvgRasterScale, sanitizeSvg, setSvgSize } from './svg';
+
+describe('sanitizeSvg', () => {
+  it('removes scripts, handlers and external references', () => {
+    const svg = [
+      '<?xml-stylesheet href="https://example.com/a.css"?>',
+      '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)">',
+      '<script>alert(2)</script>',
+      '<foreignObject><iframe src="https://example.com"/></foreignObject>',
+      '<style>@import url("https://example.com/b.css"); rect { fill: url(#g) }</style>',
+      '<use href="#logo"/><use xlink:href="https://example.com/c.svg#x"/>',
+      '<image href="data:image/png;base64,AAAA"/><image href=\'javascript:alert(3)\'/>',
+      '<rect style="fill: url(https://example.com/d.png)"/>',
+      '</svg>',
+    ].join('');
+    expect(sanitizeSvg(svg)).toBe([
+      '<svg xmlns="http://www.w3.org/2000/svg">',
+      '<style> rect { fill: url(#g) }</style>',
+      '<use href="#logo"/><use/>',
+      '<image href="data:image/png;base64,AAAA"/><image/>',
+      '<rect style="fill: none"/>',
+      '</svg>',
+    ].join(''));
+  });
+});
+
+describe('getSvgIntrinsicSize', () => {
+  it('reads width and height, converting absolute units', () => {
+    expect(getSvgIntrinsicSize('<svg width="300" height="250px">')).toEqual({ width: 300, height: 250 });
+    expect(getSvgIntrinsicSize('<svg width="1in" height="72pt">')).toEqual({ width: 96, height: 96 });
+  });
+
+  it('falls back to the viewBox', () => {
+    expect(getSvgIntrinsicSize('<svg viewBox="0 0 64 32">')).toEqual({ width: 64, height: 32 });
+    expect(getSvgIntrinsicSize('<svg width="128" viewBox="0,0,64,32">')).toEqual({ width: 128, height: 64 });
+    expect(getSvgIntrinsicSize('<svg width="100%" height="100%" viewBox="0 0 64 32">')).toEqual({ width: 64, height: 32 });
+  });
+
+  it('is undefined without a usable size', () => {
+    expect(getSvgIntrinsicSize('<svg width="100%">')).toBeUndefined();
+    expect(getSvgIntrinsicSize('<html></html>')).toBeUndefined();
+  });
+});
+
+describe('setSvgSize', () => {
+  it('replaces the size and adds a viewBox when missing', () => {
+    expect(setSvgSize('<svg width="30" height="20"><g/></svg>', 600, 400))
+      .toBe('<svg width="600" height="400" viewBox="0 0 30 20"><g/></svg>');
+    expect(setSvgSize('<svg viewBox="0 0 3 2">', 600, 400)).toBe('<svg width="600" height="400" viewBox="0 0 3 2">');
+  });
+});
+
+describe('getSvgRasterScale', () => {
+  it('scales the cropped region up to the target', () => {
+    expect(getSvgRasterScale({ width: 100, height: 50 }, { width: 600, height: 500 })).toBe(10);
+    expect(getSvgRasterScale({ width: 100, height: 50 }, { width: 300, height: 250 }, { x: 0, y: 0, width: 10, height: 10 })).toBe(30);
+  });
+
+  it('caps the raster size', () => {
+    expect(getSvgRasterScale({ width: 100, height: 50 }, { width: 100000, height: 100 })).toBe(81.92);
+  });
+});
@@ -0,0 +1,92 @@
+import type { CropRect } from './crop';
+
+export const SVG_TYPE = 'image/svg+xml';
+
+/** Longest side an SVG is rasterized at, whatever the target needs; larger canvases fail or exhaust memory. */
+export const MAX_SVG_RASTER_SIZE = 8192;
+
+export const SVG_WITHOUT_SIZE_MESSAGE = 'This SVG has no width, height or viewBox, so its size is unknown. Add a viewBox and try again.';
+
+export interface SvgSize {
+  width: number;
+  height: number;
+}
+
+// CSS pixels per unit; relative units (em, %) can't be resolved without a document
+const pixelsPerUnit: Record<string, number> = { '': 1, px: 1, pt: 4 / 3, pc: 16, in: 96, cm: 96 / 2.54, mm: 96 / 25.4 };
+
+const ROOT_TAG_PATTERN = /<svg\b[^>]*>/i;
+
+const getAttribute = (tag: string, name: string) =>
+  new RegExp(`\\s${name}\\s*=\\s*(["'])(.*?)\\1`, 'i').exec(tag)?.[2];
+
+const parseLength = (value?: string) => {
+  const match = value && /^\s*(\d*\.?\d+(?:e[-+]?\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  if (!match) return undefined;
+  const size = Number(match[1]) * (pixelsPerUnit[match[2].toLowerCase()] ?? NaN);
+  return size > 0 ? size : undefined;
+};
+
+const parseViewBox = (value?: string): SvgSize | undefined => {
+  const parts = value?.trim().split(/[\s,]+/).map(Number);
+  if (!parts || parts.length !== 4 || !(parts[2] > 0 && parts[3] > 0)) return undefined;
+  return { width: parts[2], height: parts[3] };
+};
+
+/**
+ * Removes what could run code or fetch anything when the SVG is rendered: scripts,
+ * `foreignObject`, event handler attributes, stylesheets and entities, and every
+ * reference that isn't to the document itself or to an inline image.
+ */
+export const sanitizeSvg = (source: string) => source
+  .replace(/<\?xml-stylesheet[\s\S]*?\?>/gi, '')
+  .replace(/<!DOCTYPE[^[>]*(\[[\s\S]*?\])?\s*>/gi, '')
+  .replace(/<(script|foreignObject)\b[\s\S]*?<\/\1\s*>/gi, '')
+  .replace(/<(script|foreignObject)\b[^>]*\/>/gi, '')
+  .replace(/\s+on[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+  .replace(/\s+(?:xlink:)?href\s*=\s*(["'])(?!#|data:image\/)[\s\S]*?\1/gi, '')
+  .replace(/url\(\s*(["']?)(?!#|data:image\/)[^)]*?\1\s*\)/gi, 'none')
+  .replace(/@import[^;]*;?/gi, '');
+
+/**
+ * Size the SVG renders at on its own. With only a viewBox, or one missing dimension,
+ * the viewBox fills in the rest; undefined when neither is usable.
+ */
+export const getSvgIntrinsicSize = (source: string): SvgSize | undefined => {
+  const tag = ROOT_TAG_PATTERN.exec(source)?.[0];
+  if (!tag) return undefined;
+  const width = parseLength(getAttribute(tag, 'width'));
+  const height = parseLength(getAttribute(tag, 'height'));
+  const viewBox = parseViewBox(getAttribute(tag, 'viewBox'));
+  if (width && height) return { width, height };
+  if (!viewBox) return undefined;
+  if (width) return { width, height: (width * viewBox.height) / viewBox.width };
+  if (height) return { width: (height * viewBox.width) / viewBox.height, height };
+  return viewBox;
+};
+
+/**
+ * Sets the size the SVG renders at, adding a viewBox from the original size when there is
+ * none so the drawing scales instead of being clipped.
+ */
+export const setSvgSize = (source: string, width: number, height: number) => {
+  const tag = ROOT_TAG_PATTERN.exec(source)?.[0];
+  if (!tag) return source;
+  const intrinsic = getSvgIntrinsicSize(source);
+  let next = tag.replace(/\s(width|height)\s*=\s*(["']).*?\2/gi, '');
+  if (!getAttribute(tag, 'viewBox') && intrinsic) {
+    next = next.replace(/^<svg/i, `<svg viewBox="0 0 ${intrinsic.width} ${intrinsic.height}"`);
+  }
+  next = next.replace(/^<svg/i, `<svg width="${width}" height="${height}"`);
+  return source.replace(tag, next);
+};
+
+/**
+ * How much to enlarge the SVG so the region that ends up in the banner (the crop, or the
+ * whole image) has at least one source pixel per output pixel.
+ */
+export const getSvgRasterScale = (intrinsic: SvgSize, target: SvgSize, crop?: CropRect) => {
+  const region = crop ?? intrinsic;
+  const scale = Math.max(target.width / region.width, target.height / region.height);
+  return Math.min(scale, MAX_SVG_RASTER_SIZE / Math.max(intrinsic.width, intrinsic.height));
+};
@@ -0,0 +1,101 @@
+import * as React from "react"
+
+import {
+  createBannerFormat,
+  defaultBannerFormats,
+  getAspectRatio,
+  presetPacks,
+  type BannerFormat,
+  type BannerFormatInput,
+} from "@/core"
+
+const STORAGE_KEY = "banner-optimizer:formats"
+const PACKS_STORAGE_KEY = "banner-optimizer:preset-packs"
+
+function loadFormats(): BannerFormat[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (!stored) return defaultBannerFormats
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed) ? parsed : defaultBannerFormats
+  } catch {
+    return defaultBannerFormats
+  }
+}
+
+function loadEnabledPackIds(): string[] {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(PACKS_STORAGE_KEY) ?? "[]")
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export function useBannerFormats() {
+  const [formats, setFormats] = React.useState<BannerFormat[]>(loadFormats)
+  const [enabledPackIds, setEnabledPackIds] = React.useState<string[]>(loadEnabledPackIds)
+
+  React.useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(formats))
+  }, [formats])
+
+  React.useEffect(() => {
+    window.localStorage.setItem(PACKS_STORAGE_KEY, JSON.stringify(enabledPackIds))
+  }, [enabledPackIds])
+
+  const activeFormats = React.useMemo(
+    () => [
+      ...formats.filter((format) => format.enabled),
+      ...presetPacks
+        .filter((pack) => enabledPackIds.includes(pack.id))
+        .flatMap((pack) => pack.formats),
+    ],
+    [formats, enabledPackIds]
+  )
+
+  const addFormat = React.useCallback((input: BannerFormatInput) => {
+    setFormats((prev) => [...prev, createBannerFormat(input)])
+  }, [])
+
+  const updateFormat = React.useCallback((id: string, changes: Partial<BannerFormatInput> & { enabled?: boolean }) => {
+    setFormats((prev) =>
+      prev.map((format) => {
+        if (format.id !== id) return format
+        const updated = { ...format, ...changes }
+        return { ...updated, aspectRatio: getAspectRatio(updated.width, updated.height) }
+      })
+    )
+  }, [])
+
+  const removeFormat = React.useCallback((id: string) => {
+    setFormats((prev) => prev.filter((format) => format.id !== id))
+  }, [])
+
+  const resetFormats = React.useCallback(() => {
+    setFormats(defaultBannerFormats)
+  }, [])
+
+  const replaceFormats = React.useCallback((nextFormats: BannerFormat[], packIds: string[]) => {
+    setFormats(nextFormats)
+    setEnabledPackIds(packIds)
+  }, [])
+
+  const togglePresetPack = React.useCallback((packId: string) => {
+    setEnabledPackIds((prev) =>
+      prev.includes(packId) ? prev.filter((id) => id !== packId) : [...prev, packId]
+    )
+  }, [])
+
+  return {
+    formats,
+    activeFormats,
+    enabledPackIds,
+    addFormat,
+    updateFormat,
+    removeFormat,
+    resetFormats,
+    togglePresetPack,
+    replaceFormats,
+  }
+}
@@ -0,0 +1,37 @@
+import { getDrawRect, type CropRect, type FitMode, type FocalPoint, type OutputType } from '@/core';
+
+/**
+ * Draws the source onto a canvas already sized to the target. Shared by the encoder
+ * and the crop editor preview so both produce identical pixels.
+ */
+export const drawBanner = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  srcWidth: number,
+  srcHeight: number,
+  fitMode: FitMode,
+  options: { crop?: CropRect; focalPoint?: FocalPoint; background?: string } = {}
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  const rect = getDrawRect(srcWidth, srcHeight, width, height, fitMode, options);
+  ctx.drawImage(source, rect.sx, rect.sy, rect.sw, rect.sh, rect.dx, rect.dy, rect.dw, rect.dh);
+};
+
+const supportCache = new Map<OutputType, boolean>();
+
+/** Whether this browser's canvas can encode the type (AVIF support in particular varies). */
+export const isOutputTypeSupported = (type: OutputType) => {
+  if (!supportCache.has(type)) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    supportCache.set(type, canvas.toDataURL(type).startsWith(`data:${type}`));
+  }
+  return supportCache.get(type)!;
+};
@@ -0,0 +1,141 @@
+import JSZip from 'jszip';
+import {
+  SVG_TYPE, createPastedFilename, getBaseName, getHtmlDataUriImages, getImageMimeType, getSvgIntrinsicSize, isIgnoredInputPath,
+  isZipFile, parseImageDataUri, sanitizeSvg, setSvgSize
+} from '@/core';
+
+export interface InputFile {
+  file: File;
+  /** Path relative to the dropped folder or ZIP, including the name; just the name for loose files. */
+  path: string;
+}
+
+export const fromFileList = (files: FileList | File[]): InputFile[] =>
+  Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+// `readEntries` hands out directory contents in batches and signals the end with an empty one
+const readDirectory = async (directory: FileSystemDirectoryEntry) => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const readEntry = async (entry: FileSystemEntry, path: string): Promise<InputFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, path }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(child => readEntry(child, `${path}/${child.name}`)))).flat();
+  }
+  return [];
+};
+
+/**
+ * Files from a drop, walking into any dropped folders. Call it straight from the drop
+ * handler: the browser empties `dataTransfer` once the event has been handled.
+ */
+export const readDataTransfer = (dataTransfer: DataTransfer): Promise<InputFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => !entry)) return Promise.resolve(fromFileList(dataTransfer.files));
+  return Promise.all(entries.map(entry => readEntry(entry!, entry!.name))).then(files => files.flat());
+};
+
+/** Images carried inline in dropped or pasted HTML, such as an image dragged from another tab. */
+export const readHtmlImages = (html: string, date = new Date()): InputFile[] =>
+  getHtmlDataUriImages(html).flatMap((uri, i) => {
+    const image = parseImageDataUri(uri);
+    if (!image) return [];
+    const name = createPastedFilename(image.type, date, i);
+    return [{ file: new File([image.data], name, { type: image.type }), path: name }];
+  });
+
+/**
+ * Images on the clipboard, named after the time of the paste since screenshots and copied
+ * frames come without a useful name. Copied HTML is only searched for inline images when
+ * `includeHtml` is set, so pasting rich text into a field isn't taken over.
+ */
+export const readClipboard = (clipboardData: DataTransfer, includeHtml: boolean): InputFile[] => {
+  const date = new Date();
+  const files = Array.from(clipboardData.items)
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null);
+  if (files.length > 0) {
+    return files.map((file, i) => {
+      const name = createPastedFilename(file.type, date, i);
+      return { file: new File([file], name, { type: file.type }), path: name };
+    });
+  }
+  return includeHtml ? readHtmlImages(clipboardData.getData('text/html'), date) : [];
+};
+
+/**
+ * Sanitized copy of an SVG, with its width and height written out when they only follow
+ * from the viewBox, so every later `<img>` of it has the right natural size.
+ */
+const prepareSvgFile = async (file: File) => {
+  const svg = sanitizeSvg(await file.text());
+  const size = getSvgIntrinsicSize(svg);
+  return new File([size ? setSvgSize(svg, size.width, size.height) : svg], file.name, { type: SVG_TYPE, lastModified: file.lastModified });
+};
+
+const unpackZip = async (input: InputFile): Promise<{ files: InputFile[]; skipped: string[] }> => {
+  const zip = await JSZip.loadAsync(input.file);
+  const folder = getBaseName(input.path);
+  const files: InputFile[] = [];
+  const skipped: string[] = [];
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || isIgnoredInputPath(entry.name)) continue;
+    const path = `${folder}/${entry.name}`;
+    const type = getImageMimeType(entry.name);
+    if (!type) {
+      skipped.push(path);
+      continue;
+    }
+    const name = entry.name.substring(entry.name.lastIndexOf('/') + 1);
+    const file = new File([await entry.async('blob')], name, { type, lastModified: entry.date.getTime() });
+    files.push({ file: type === SVG_TYPE ? await prepareSvgFile(file) : file, path });
+  }
+  return { files, skipped };
+};
+
+/**
+ * Keeps the images, unpacking ZIP archives into the images they hold (their paths start
+ * with the archive's name), and lists everything else as skipped. Images read from
+ * folders sometimes come without a type, which is then taken from the extension. SVGs
+ * from anywhere, archives included, are sanitized on the way in.
+ */
+export const expandInputFiles = async (inputs: InputFile[]): Promise<{ files: InputFile[]; skipped: string[] }> => {
+  const files: InputFile[] = [];
+  const skipped: string[] = [];
+  for (const input of inputs) {
+    if (isIgnoredInputPath(input.path)) continue;
+    if (isZipFile(input.file.name, input.file.type)) {
+      try {
+        const unpacked = await unpackZip(input);
+        files.push(...unpacked.files);
+        skipped.push(...unpacked.skipped);
+      } catch {
+        skipped.push(input.path);
+      }
+      continue;
+    }
+    const type = input.file.type || getImageMimeType(input.file.name);
+    if (!type?.startsWith('image/')) {
+      skipped.push(input.path);
+    } else if (type === SVG_TYPE) {
+      files.push({ ...input, file: await prepareSvgFile(input.file) });
+    } else {
+      files.push(input.file.type ? input : { ...input, file: new File([input.file], input.file.name, { type }) });
+    }
+  }
+  return { files, skipped };
+};
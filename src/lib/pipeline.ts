@@ -0,0 +1,307 @@
+import {
+  SVG_TYPE,
+  SVG_WITHOUT_SIZE_MESSAGE,
+  encodeAnimatedGif,
+  encodeAnimationWithinBudget,
+  encodeWithinBudget,
+  fitAnimationToRules,
+  getBackgroundForType,
+  getGifColors,
+  getSvgIntrinsicSize,
+  getSvgRasterScale,
+  muxAnimatedWebp,
+  normalizeFrameDuration,
+  outputTypes,
+  setSvgSize,
+  type AnimatedOutputType,
+  type AnimationFrame,
+  type AnimationInfo,
+  type BannerFormat,
+  type CropRect,
+  type Encoder,
+  type EncodeResult,
+  type FitMode,
+  type FocalPoint,
+  type OutputType,
+} from '@/core';
+import { drawBanner } from '@/lib/canvas';
+
+export type ProcessingStage = 'decode' | 'resize' | 'encode' | 'size-search';
+
+export const stageLabels: Record<ProcessingStage, string> = {
+  decode: 'Decoding',
+  resize: 'Resizing',
+  encode: 'Encoding',
+  'size-search': 'Searching for target size',
+};
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  /** 0-100 across the whole pipeline, not just the current stage. */
+  progress: number;
+  detail?: string;
+}
+
+export interface OptimizeOptions {
+  outputType: OutputType;
+  quality: number;
+  fitMode: FitMode;
+  format: BannerFormat;
+  crop?: CropRect;
+  focalPoint?: FocalPoint;
+  /** Maximum output size in bytes; triggers the quality search when set. */
+  budget?: number;
+  /** Renders at this multiple of the format size, e.g. 2 for an @2x output. */
+  pixelRatio?: number;
+  /** Re-encodes animated inputs frame by frame as this type; without it they are flattened to their first frame. */
+  animatedOutputType?: AnimatedOutputType;
+  /** Changes animated outputs that break the format's animation rules until they meet them. */
+  fitAnimation?: boolean;
+}
+
+export interface OptimizeResult extends Omit<EncodeResult, 'type'> {
+  type: OutputType | AnimatedOutputType;
+  size: number;
+  format: BannerFormat;
+  /** Set when the output is animated. */
+  animation?: AnimationInfo;
+  /** What `fitAnimation` changed, if anything. */
+  animationChanges?: string[];
+}
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  /** Decoded pixels per source pixel; above 1 when an SVG is rendered larger than its own size. */
+  scale: number;
+  close: () => void;
+}
+
+interface Surface {
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  toBlob: (type: string, quality: number) => Promise<Blob | null>;
+}
+
+/** True where the whole pipeline can run off the main thread. */
+export const supportsOffscreenPipeline = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+/** True where animated inputs can be decoded frame by frame; elsewhere they are flattened. */
+export const supportsAnimatedPipeline = () => typeof ImageDecoder !== 'undefined';
+
+const loadImage = (file: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  const url = URL.createObjectURL(file);
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Failed to load image'));
+  };
+  image.src = url;
+});
+
+/**
+ * Renders the SVG straight at the resolution the banner needs instead of stretching its
+ * intrinsic size. Needs an `<img>`, so SVGs never go to a worker.
+ */
+const decodeSvg = async (file: Blob, target: { width: number; height: number }, crop?: CropRect): Promise<DecodedImage> => {
+  const svg = await file.text();
+  const intrinsic = getSvgIntrinsicSize(svg);
+  if (!intrinsic) throw new Error(SVG_WITHOUT_SIZE_MESSAGE);
+  const scale = getSvgRasterScale(intrinsic, target, crop);
+  const width = Math.max(1, Math.round(intrinsic.width * scale));
+  const height = Math.max(1, Math.round(intrinsic.height * scale));
+  const img = await loadImage(new Blob([setSvgSize(svg, width, height)], { type: SVG_TYPE }));
+  return { source: img, width, height, scale: width / intrinsic.width, close: () => undefined };
+};
+
+const decode = async (file: Blob): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file);
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, scale: 1, close: () => bitmap.close() };
+    } catch {
+      throw new Error('Failed to load image');
+    }
+  }
+
+  const img = await loadImage(file);
+  return { source: img, width: img.width, height: img.height, scale: 1, close: () => undefined };
+};
+
+const createSurface = (width: number, height: number): Surface => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    return {
+      ctx,
+      toBlob: (type, quality) => canvas.convertToBlob({ type, quality }).catch(() => null),
+    };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  return {
+    ctx,
+    toBlob: (type, quality) => new Promise(resolve => canvas.toBlob(resolve, type, quality)),
+  };
+};
+
+/**
+ * Resizes every frame of an animated input and encodes the frames as one animation.
+ * Resolves to undefined when the input turns out to be a still image, or can't be
+ * decoded frame by frame, so the caller can treat it like any other.
+ */
+const optimizeAnimation = async (
+  file: Blob,
+  options: OptimizeOptions,
+  type: AnimatedOutputType,
+  surface: Surface,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<OptimizeResult | undefined> => {
+  if (!(await ImageDecoder.isTypeSupported(file.type))) return undefined;
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+  try {
+    await decoder.tracks.ready;
+    await decoder.completed;
+    const track = decoder.tracks.selectedTrack;
+    if (!track || track.frameCount < 2) return undefined;
+
+    const { width, height } = surface.ctx.canvas;
+    let frames: AnimationFrame[] = [];
+    for (let i = 0; i < track.frameCount; i++) {
+      onProgress?.({
+        stage: 'resize',
+        progress: Math.round(20 + (15 * i) / track.frameCount),
+        detail: `Frame ${i + 1} of ${track.frameCount}`,
+      });
+      const { image: frame } = await decoder.decode({ frameIndex: i });
+      try {
+        drawBanner(surface.ctx, frame, frame.displayWidth, frame.displayHeight, options.fitMode, {
+          crop: options.crop,
+          focalPoint: options.focalPoint,
+        });
+        frames.push({
+          data: surface.ctx.getImageData(0, 0, width, height).data,
+          duration: normalizeFrameDuration(Math.round((frame.duration ?? 0) / 1000)),
+        });
+      } finally {
+        frame.close();
+      }
+    }
+    // `repetitionCount` counts repeats after the first play
+    let loopCount = track.repetitionCount === Infinity ? 0 : track.repetitionCount + 1;
+    let animationChanges: string[] | undefined;
+    if (options.fitAnimation && options.format.animation) {
+      const fitted = fitAnimationToRules(frames, loopCount, options.format.animation);
+      ({ frames, loopCount } = fitted);
+      animationChanges = fitted.changes;
+    }
+
+    const encode = async (quality: number) => {
+      if (type === 'image/gif') {
+        return new Blob([encodeAnimatedGif(frames, width, height, loopCount, getGifColors(quality))], { type });
+      }
+      const stills: AnimationFrame<Uint8Array>[] = [];
+      for (const frame of frames) {
+        surface.ctx.putImageData(new ImageData(frame.data, width, height), 0, 0);
+        const blob = await surface.toBlob(type, quality / 100);
+        if (blob?.type !== type) throw new Error('This browser can\'t encode WebP; choose animated GIF output instead');
+        stills.push({ data: new Uint8Array(await blob.arrayBuffer()), duration: frame.duration });
+      }
+      return new Blob([muxAnimatedWebp(stills, width, height, loopCount)], { type });
+    };
+
+    const label = type === 'image/gif' ? 'animated GIF' : 'animated WebP';
+    const result = await encodeAnimationWithinBudget(encode, options.quality, options.budget, (attempt, maxAttempts, quality) => {
+      onProgress?.({
+        stage: attempt === 1 ? 'encode' : 'size-search',
+        progress: Math.round(35 + (60 * (attempt - 1)) / maxAttempts),
+        detail: attempt === 1 ? `${frames.length} frames as ${label} at quality ${quality}` : `Attempt ${attempt}: quality ${quality}`,
+      });
+    });
+    return {
+      ...result,
+      type,
+      size: result.blob.size,
+      format: options.format,
+      animation: {
+        frameCount: frames.length,
+        loopCount,
+        duration: frames.reduce((total, frame) => total + frame.duration, 0),
+        shortestFrame: Math.min(...frames.map(frame => frame.duration)),
+      },
+      animationChanges,
+    };
+  } finally {
+    decoder.close();
+  }
+};
+
+/**
+ * Decodes, resizes and encodes one banner. Runs unchanged inside the worker and,
+ * as a fallback, on the main thread.
+ */
+export const optimizeImage = async (
+  file: Blob,
+  options: OptimizeOptions,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<OptimizeResult> => {
+  const selectedFormat = options.format;
+  const pixelRatio = options.pixelRatio ?? 1;
+  const width = selectedFormat.width * pixelRatio;
+  const height = selectedFormat.height * pixelRatio;
+  onProgress?.({ stage: 'decode', progress: 0 });
+  if (options.animatedOutputType && supportsAnimatedPipeline()) {
+    const result = await optimizeAnimation(file, options, options.animatedOutputType, createSurface(width, height), onProgress);
+    if (result) return result;
+  }
+  const image = file.type === SVG_TYPE ? await decodeSvg(file, { width, height }, options.crop) : await decode(file);
+
+  try {
+    const surface = createSurface(width, height);
+    onProgress?.({
+      stage: 'resize',
+      progress: 20,
+      detail: `${image.width}×${image.height} → ${width}×${height}`,
+    });
+    // Crops are picked on the source at its own size
+    const crop = options.crop && {
+      x: options.crop.x * image.scale,
+      y: options.crop.y * image.scale,
+      width: options.crop.width * image.scale,
+      height: options.crop.height * image.scale,
+    };
+
+    const encode: Encoder = (type, quality) => {
+      drawBanner(surface.ctx, image.source, image.width, image.height, options.fitMode, {
+        crop,
+        focalPoint: options.focalPoint,
+        background: getBackgroundForType(type),
+      });
+      return surface.toBlob(type, quality / 100);
+    };
+
+    const result = await encodeWithinBudget(encode, options.outputType, options.quality, options.budget, (attempt, maxAttempts, type, quality) => {
+      const label = outputTypes.find(t => t.value === type)?.label;
+      onProgress?.({
+        stage: attempt === 1 ? 'encode' : 'size-search',
+        progress: Math.round(35 + (60 * (attempt - 1)) / maxAttempts),
+        detail: attempt === 1 ? `${label} at quality ${quality}` : `Attempt ${attempt}: ${label} at quality ${quality}`,
+      });
+    });
+    return { ...result, size: result.blob.size, format: selectedFormat };
+  } finally {
+    image.close();
+  }
+};
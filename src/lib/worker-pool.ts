@@ -0,0 +1,160 @@
+import { SVG_TYPE } from '@/core';
+import {
+  optimizeImage,
+  supportsOffscreenPipeline,
+  type OptimizeOptions,
+  type OptimizeResult,
+  type ProcessingProgress,
+} from '@/lib/pipeline';
+import type { OptimizeRequest, OptimizeResponse } from '@/workers/optimize.worker';
+
+interface PendingJob {
+  resolve: (result: OptimizeResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  busy: boolean;
+  jobId?: number;
+}
+
+export interface WorkerPool {
+  /**
+   * Runs one job, waiting for a free worker when all of them are busy. Aborting the
+   * signal rejects with an AbortError and stops the worker running the job.
+   */
+  run: (
+    file: Blob,
+    options: OptimizeOptions,
+    onProgress?: (progress: ProcessingProgress) => void,
+    signal?: AbortSignal
+  ) => Promise<OptimizeResult>;
+  /** Whether jobs actually run in workers rather than on the main thread. */
+  offscreen: boolean;
+  terminate: () => void;
+}
+
+const abortError = () => new DOMException('Processing cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+/** Main-thread jobs can't be interrupted, so a cancelled one just has its result ignored. */
+const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+export const getDefaultConcurrency = () =>
+  Math.max(1, Math.min(4, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2));
+
+/**
+ * Creates a pool of optimize workers. Browsers without OffscreenCanvas get a pool that
+ * runs jobs on the main thread instead, so callers don't need to care which they got.
+ */
+export const createWorkerPool = (size: number): WorkerPool => {
+  if (!supportsOffscreenPipeline()) {
+    return {
+      run: (file, options, onProgress, signal) => raceAbort(optimizeImage(file, options, onProgress), signal),
+      offscreen: false,
+      terminate: () => undefined,
+    };
+  }
+
+  const workers: PoolWorker[] = [];
+  const pending = new Map<number, PendingJob>();
+  const waiting: (() => void)[] = [];
+  let nextId = 0;
+
+  const acquire = async (): Promise<PoolWorker> => {
+    for (;;) {
+      const idle = workers.find(w => !w.busy);
+      if (idle) {
+        idle.busy = true;
+        return idle;
+      }
+      if (workers.length < size) {
+        const worker = new Worker(new URL('../workers/optimize.worker.ts', import.meta.url), { type: 'module' });
+        worker.addEventListener('message', (e: MessageEvent<OptimizeResponse>) => {
+          const job = pending.get(e.data.id);
+          if (!job) return;
+          if (e.data.type === 'progress') {
+            job.onProgress?.(e.data.progress);
+            return;
+          }
+          pending.delete(e.data.id);
+          if (e.data.type === 'result') {
+            job.resolve(e.data.result);
+          } else {
+            job.reject(new Error(e.data.message));
+          }
+        });
+        const poolWorker: PoolWorker = { worker, busy: true };
+        // A crashed worker (e.g. out of memory) never replies, so fail its job here
+        worker.addEventListener('error', () => {
+          const job = poolWorker.jobId !== undefined ? pending.get(poolWorker.jobId) : undefined;
+          if (!job) return;
+          pending.delete(poolWorker.jobId!);
+          job.reject(new Error('Worker crashed while processing the image'));
+        });
+        workers.push(poolWorker);
+        return poolWorker;
+      }
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+  };
+
+  const release = (poolWorker: PoolWorker) => {
+    poolWorker.busy = false;
+    waiting.shift()?.();
+  };
+
+  return {
+    run: async (file, options, onProgress, signal) => {
+      // Workers have no <img> to rasterize SVGs with
+      if (file.type === SVG_TYPE) return raceAbort(optimizeImage(file, options, onProgress), signal);
+      if (signal?.aborted) throw abortError();
+      const poolWorker = await acquire();
+      if (signal?.aborted) {
+        release(poolWorker);
+        throw abortError();
+      }
+      const id = nextId++;
+      poolWorker.jobId = id;
+      // A worker can't be interrupted mid-encode, so cancelling replaces it with a fresh one
+      const onAbort = () => {
+        const job = pending.get(id);
+        if (!job) return;
+        pending.delete(id);
+        poolWorker.worker.terminate();
+        workers.splice(workers.indexOf(poolWorker), 1);
+        job.reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      try {
+        return await new Promise<OptimizeResult>((resolve, reject) => {
+          pending.set(id, { resolve, reject, onProgress });
+          const request: OptimizeRequest = { id, file, options };
+          poolWorker.worker.postMessage(request);
+        });
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        poolWorker.jobId = undefined;
+        release(poolWorker);
+      }
+    },
+    offscreen: true,
+    terminate: () => {
+      workers.forEach(w => w.worker.terminate());
+      workers.length = 0;
+      pending.forEach(job => job.reject(new Error('Worker pool terminated')));
+      pending.clear();
+    },
+  };
+};
@@ -0,0 +1,150 @@
+import JSZip from 'jszip';
+
+export interface ZipEntry {
+  path: string;
+  data: Blob | string;
+}
+
+export interface ZipProgress {
+  volume: number;
+  volumes: number;
+  /** 0-100 across every volume. */
+  percent: number;
+  currentFile?: string;
+}
+
+/** Receives one volume's bytes as they are generated. */
+interface VolumeSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+/** Where finished volumes end up; `open` is called once per volume, in order. */
+export interface ZipDestination {
+  open: (filename: string) => Promise<VolumeSink>;
+}
+
+// The File System Access pickers are Chromium-only and missing from the DOM typings
+type SavePicker = (options: { suggestedName: string; types?: { description: string; accept: Record<string, string[]> }[] }) => Promise<FileSystemFileHandle>;
+type DirectoryPicker = (options: { mode: 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+const getPickers = () => window as unknown as { showSaveFilePicker?: SavePicker; showDirectoryPicker?: DirectoryPicker };
+
+/** True where volumes can be written straight to disk instead of being held in memory. */
+export const supportsFileSystemAccess = () =>
+  typeof window !== 'undefined' && typeof getPickers().showSaveFilePicker === 'function' &&
+  typeof getPickers().showDirectoryPicker === 'function';
+
+const toSink = async (handle: FileSystemFileHandle): Promise<VolumeSink> => {
+  const writable = await handle.createWritable();
+  return {
+    write: chunk => writable.write(chunk),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+};
+
+/**
+ * Asks where to save: a file for a single volume, a folder for several. Rejects with an
+ * AbortError when the user dismisses the picker.
+ */
+export const pickDiskDestination = async (filename: string, volumes: number): Promise<ZipDestination> => {
+  const pickers = getPickers();
+  if (volumes > 1) {
+    const directory = await pickers.showDirectoryPicker!({ mode: 'readwrite' });
+    return { open: async name => toSink(await directory.getFileHandle(name, { create: true })) };
+  }
+  const file = await pickers.showSaveFilePicker!({
+    suggestedName: filename,
+    types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+  });
+  return { open: () => toSink(file) };
+};
+
+/** Collects each volume in memory and hands it over as a Blob once complete. */
+export const createBlobDestination = (onVolume: (blob: Blob, filename: string) => void): ZipDestination => ({
+  open: async filename => {
+    let chunks: Uint8Array[] = [];
+    return {
+      write: async chunk => {
+        chunks.push(chunk);
+      },
+      close: async () => {
+        onVolume(new Blob(chunks, { type: 'application/zip' }), filename);
+        chunks = [];
+      },
+      abort: async () => {
+        chunks = [];
+      },
+    };
+  },
+});
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+/**
+ * Streams one volume into `sink`. The generator is paused while each chunk is written, so
+ * a slow disk holds back generation instead of buffering the archive. Entries are stored
+ * uncompressed: the images are compressed already, and deflate would only cost time.
+ */
+const writeVolume = (
+  entries: ZipEntry[],
+  sink: VolumeSink,
+  onProgress: (percent: number, currentFile?: string) => void,
+  signal?: AbortSignal
+) => new Promise<void>((resolve, reject) => {
+  const zip = new JSZip();
+  entries.forEach(entry => zip.file(entry.path, entry.data));
+  const stream = zip.generateInternalStream({ type: 'uint8array', streamFiles: true, compression: 'STORE' });
+  let failed = false;
+
+  const fail = (error: unknown) => {
+    if (failed) return;
+    failed = true;
+    stream.pause();
+    sink.abort().finally(() => reject(error));
+  };
+  const onAbort = () => fail(abortError());
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  stream
+    .on('data', (chunk, metadata) => {
+      stream.pause();
+      onProgress(metadata.percent, metadata.currentFile ?? undefined);
+      sink.write(chunk).then(() => {
+        if (!failed) stream.resume();
+      }, fail);
+    })
+    .on('error', fail)
+    .on('end', () => {
+      sink.close().then(() => {
+        signal?.removeEventListener('abort', onAbort);
+        if (!failed) resolve();
+      }, fail);
+    });
+  if (signal?.aborted) onAbort();
+  else stream.resume();
+});
+
+/**
+ * Writes `volumes` one after the other so only one archive is ever being generated.
+ * `volumes[i]` holds the entries of volume i + 1.
+ */
+export const writeZipVolumes = async (
+  volumes: { filename: string; entries: ZipEntry[] }[],
+  destination: ZipDestination,
+  onProgress?: (progress: ZipProgress) => void,
+  signal?: AbortSignal
+) => {
+  for (const [i, volume] of volumes.entries()) {
+    if (signal?.aborted) throw abortError();
+    const sink = await destination.open(volume.filename);
+    await writeVolume(volume.entries, sink, (percent, currentFile) => onProgress?.({
+      volume: i + 1,
+      volumes: volumes.length,
+      percent: ((i + percent / 100) / volumes.length) * 100,
+      currentFile,
+    }), signal);
+  }
+};
@@ -0,0 +1,21 @@
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { CONFIG_FILENAME, parseBannerConfig, type BannerConfig } from '../core';
+
+/** Loads an explicit config path, or `banner-optimizer.config.json` from `cwd` when present. */
+export const loadConfigFile = (configPath?: string, cwd = process.cwd()): BannerConfig | undefined => {
+  const file = configPath ? path.resolve(cwd, configPath) : path.join(cwd, CONFIG_FILENAME);
+  if (!configPath && !existsSync(file)) return undefined;
+
+  let contents: string;
+  try {
+    contents = readFileSync(file, 'utf8');
+  } catch {
+    throw new Error(`Config not found: ${file}`);
+  }
+  try {
+    return parseBannerConfig(contents);
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+};
@@ -0,0 +1,36 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { createBannerFormat } from '../core';
+import { decodeSource, renderBanner } from './render';
+
+const leaderboard = createBannerFormat({ name: '', width: 728, height: 90, useCase: '' }, 'leaderboard');
+
+const createSource = async (width: number, height: number) => {
+  const noise = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < noise.length; i++) noise[i] = (i * 7919) % 251;
+  return decodeSource(await sharp(noise, { raw: { width, height, channels: 3 } }).png().toBuffer());
+};
+
+describe('renderBanner', () => {
+  it('renders at the banner size in the requested type', async () => {
+    const source = await createSource(400, 300);
+    const result = await renderBanner(source, { outputType: 'image/webp', quality: 80, fitMode: 'cover', format: leaderboard });
+    const metadata = await sharp(result.blob.data).metadata();
+    expect(metadata).toMatchObject({ width: 728, height: 90, format: 'webp' });
+    expect(result).toMatchObject({ type: 'image/webp', quality: 80, size: result.blob.data.length });
+  });
+
+  it('lowers quality to meet a budget', async () => {
+    const source = await createSource(400, 300);
+    const options = { outputType: 'image/jpeg' as const, quality: 95, fitMode: 'cover' as const, format: leaderboard };
+    const unbounded = await renderBanner(source, options);
+    const result = await renderBanner(source, { ...options, budget: Math.round(unbounded.size * 0.6) });
+    expect(result.budgetMet).toBe(true);
+    expect(result.quality).toBeLessThan(95);
+    expect(result.size).toBeLessThanOrEqual(unbounded.size * 0.6);
+  });
+
+  it('rejects files that are not images', async () => {
+    await expect(decodeSource(Buffer.from('not an image'))).rejects.toThrow('Failed to load image');
+  });
+});
@@ -0,0 +1,122 @@
+import sharp from 'sharp';
+import {
+  encodeWithinBudget,
+  getBackgroundForType,
+  getDrawRect,
+  type AttemptListener,
+  type BannerFormat,
+  type CropRect,
+  type EncodedImage,
+  type EncodeResult,
+  type Encoder,
+  type FitMode,
+  type FocalPoint,
+  type OutputType,
+} from '../core';
+
+/** Encoded output in Node: the bytes plus what `encodeWithinBudget` needs to compare attempts. */
+export interface EncodedBuffer extends EncodedImage {
+  data: Buffer;
+  type: OutputType;
+}
+
+export interface RenderOptions {
+  outputType: OutputType;
+  quality: number;
+  fitMode: FitMode;
+  format: BannerFormat;
+  crop?: CropRect;
+  focalPoint?: FocalPoint;
+  /** Maximum output size in bytes; triggers the quality search when set. */
+  budget?: number;
+}
+
+export interface RenderResult extends EncodeResult<EncodedBuffer> {
+  size: number;
+  format: BannerFormat;
+}
+
+/** Decoded, EXIF-rotated RGBA pixels, so every format renders from one decode. */
+export interface DecodedSource {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export const decodeSource = async (input: Buffer | string): Promise<DecodedSource> => {
+  try {
+    const { data, info } = await sharp(input).rotate().ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } catch {
+    throw new Error('Failed to load image');
+  }
+};
+
+const toSharp = (source: DecodedSource) =>
+  sharp(source.data, { raw: { width: source.width, height: source.height, channels: 4 } });
+
+/** Same geometry as the canvas `drawBanner`, expressed as sharp extract/resize/composite steps. */
+const drawBanner = async (source: DecodedSource, options: RenderOptions, background: string): Promise<Buffer> => {
+  const { width, height } = options.format;
+  const rect = getDrawRect(source.width, source.height, width, height, options.fitMode, {
+    crop: options.crop,
+    focalPoint: options.focalPoint,
+  });
+
+  const left = Math.max(0, Math.round(rect.sx));
+  const top = Math.max(0, Math.round(rect.sy));
+  const region = {
+    left,
+    top,
+    width: Math.max(1, Math.min(source.width - left, Math.round(rect.sw))),
+    height: Math.max(1, Math.min(source.height - top, Math.round(rect.sh))),
+  };
+  const drawWidth = Math.max(1, Math.round(rect.dw));
+  const drawHeight = Math.max(1, Math.round(rect.dh));
+
+  const drawn = await toSharp(source)
+    .extract(region)
+    .resize(drawWidth, drawHeight, { fit: 'fill' })
+    .png()
+    .toBuffer();
+
+  return sharp({ create: { width, height, channels: 4, background } })
+    .composite([{ input: drawn, left: Math.round(rect.dx), top: Math.round(rect.dy) }])
+    .raw()
+    .toBuffer();
+};
+
+const encodeRaw = (raw: Buffer, width: number, height: number, type: OutputType, quality: number) => {
+  const image = sharp(raw, { raw: { width, height, channels: 4 } });
+  switch (type) {
+    case 'image/png': return image.png({ compressionLevel: 9 }).toBuffer();
+    case 'image/webp': return image.webp({ quality }).toBuffer();
+    case 'image/avif': return image.avif({ quality }).toBuffer();
+    case 'image/jpeg':
+    default: return image.flatten({ background: getBackgroundForType('image/jpeg') }).jpeg({ quality, mozjpeg: true }).toBuffer();
+  }
+};
+
+/** Node counterpart of `optimizeImage`: resizes one banner with sharp and runs the shared budget search. */
+export const renderBanner = async (
+  source: DecodedSource,
+  options: RenderOptions,
+  onAttempt?: AttemptListener
+): Promise<RenderResult> => {
+  const { width, height } = options.format;
+  // Rendered lazily, once per background
+  const rendered = new Map<string, Promise<Buffer>>();
+  const render = (background: string) => {
+    if (!rendered.has(background)) rendered.set(background, drawBanner(source, options, background));
+    return rendered.get(background)!;
+  };
+
+  const encode: Encoder<EncodedBuffer> = async (type, quality) => {
+    const raw = await render(getBackgroundForType(type) ?? '#00000000');
+    const data = await encodeRaw(raw, width, height, type, quality);
+    return { data, type, size: data.length };
+  };
+
+  const result = await encodeWithinBudget(encode, options.outputType, options.quality, options.budget, onAttempt);
+  return { ...result, size: result.blob.size, format: options.format };
+};
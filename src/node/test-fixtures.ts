@@ -0,0 +1,5 @@
+import sharp from 'sharp';
+
+/** Solid-colour PNG for tests that need a real image to upload or optimize. */
+export const createPng = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#336699' } }).png().toBuffer();
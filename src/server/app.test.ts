@@ -0,0 +1,129 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createPng } from '../node/test-fixtures';
+import { createApiServer } from './app';
+import { createJobQueue, type JobQueue } from './jobs';
+
+let server: Server;
+let queue: JobQueue;
+let baseUrl: string;
+
+const upload = async (body: Buffer, query = '', type = 'image/png') =>
+  fetch(`${baseUrl}/jobs${query}`, { method: 'POST', headers: { 'Content-Type': type }, body });
+
+const waitForJob = async (id: string) => {
+  let job;
+  await vi.waitFor(async () => {
+    job = await (await fetch(`${baseUrl}/jobs/${id}`)).json();
+    expect(['completed', 'error', 'cancelled']).toContain(job.status);
+  }, { timeout: 10000, interval: 50 });
+  return job;
+};
+
+beforeAll(async () => {
+  queue = createJobQueue();
+  server = createApiServer(queue);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await queue.idle();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('banner API', () => {
+  it('serves the OpenAPI document', async () => {
+    const res = await fetch(`${baseUrl}/openapi.json`);
+    expect(res.status).toBe(200);
+    const document = await res.json();
+    expect(document.openapi).toBe('3.1.0');
+    expect(Object.keys(document.paths)).toContain('/jobs/{id}/download');
+  });
+
+  it('optimizes an upload into the best matching format', async () => {
+    const res = await upload(await createPng(1456, 180), '?filename=Hero.png&type=webp&quality=70');
+    expect(res.status).toBe(202);
+    const queued = await res.json();
+    expect(queued).toMatchObject({ status: 'queued', source: 'Hero.png', progress: 0, outputs: [] });
+
+    const job = await waitForJob(queued.id);
+    expect(job).toMatchObject({
+      status: 'completed',
+      progress: 100,
+      outputs: [{ filename: 'hero_728x90.webp', type: 'image/webp', quality: 70, format: { width: 728, height: 90 } }],
+      downloadUrl: `/jobs/${queued.id}/download`,
+    });
+
+    const result = await fetch(`${baseUrl}${job.outputs[0].url}`);
+    expect(result.headers.get('content-type')).toBe('image/webp');
+    const metadata = await sharp(Buffer.from(await result.arrayBuffer())).metadata();
+    expect(metadata).toMatchObject({ width: 728, height: 90, format: 'webp' });
+  });
+
+  it('fans out to every requested format and zips the results', async () => {
+    const queued = await (await upload(await createPng(800, 600), '?filename=promo.png&formats=300x250,320x50&fanOut=true')).json();
+    const job = await waitForJob(queued.id);
+    expect(job.outputs.map((o: { filename: string }) => o.filename)).toEqual(['promo_300x250.png', 'promo_320x50.png']);
+
+    const res = await fetch(`${baseUrl}${job.downloadUrl}`);
+    expect(res.headers.get('content-type')).toBe('application/zip');
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    expect(Object.keys(zip.files).sort()).toEqual(['promo_300x250.png', 'promo_320x50.png']);
+  });
+
+  it('numbers outputs of sizes shared by several packs', async () => {
+    const queued = await (await upload(await createPng(600, 500), '?filename=promo.png&packs=iab,gdn&fanOut=true')).json();
+    const job = await waitForJob(queued.id);
+    const filenames: string[] = job.outputs.map((o: { filename: string }) => o.filename);
+    expect(new Set(filenames).size).toBe(filenames.length);
+    expect(filenames.filter(name => name.startsWith('promo_300x250'))).toEqual(['promo_300x250.png', 'promo_300x250-2.png']);
+
+    const second = await fetch(`${baseUrl}/jobs/${queued.id}/results/promo_300x250-2.png`);
+    expect(second.status).toBe(200);
+    const zip = await JSZip.loadAsync(await (await fetch(`${baseUrl}${job.downloadUrl}`)).arrayBuffer());
+    expect(Object.keys(zip.files)).toHaveLength(filenames.length);
+  });
+
+  it('reports decode failures on the job', async () => {
+    const queued = await (await upload(Buffer.from('not an image'))).json();
+    const job = await waitForJob(queued.id);
+    expect(job).toMatchObject({ status: 'error', errorMessage: 'Failed to load image', outputs: [] });
+
+    const res = await fetch(`${baseUrl}/jobs/${queued.id}/download`);
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Job is error' });
+  });
+
+  it('rejects invalid uploads', async () => {
+    const png = await createPng(10, 10);
+    expect((await upload(png, '?quality=500')).status).toBe(400);
+    expect((await upload(png, '?formats=wide')).status).toBe(400);
+    expect((await upload(png, '', 'text/plain')).status).toBe(415);
+    expect((await upload(Buffer.alloc(0))).status).toBe(400);
+  });
+
+  it('cancels and removes jobs', async () => {
+    const png = await createPng(2000, 2000);
+    const first = await (await upload(png, '?packs=iab,gdn&fanOut=1')).json();
+    const second = await (await upload(png)).json();
+
+    const cancelled = await fetch(`${baseUrl}/jobs/${second.id}/cancel`, { method: 'POST' });
+    expect(await cancelled.json()).toMatchObject({ status: 'cancelled' });
+    expect((await fetch(`${baseUrl}/jobs/${second.id}/cancel`, { method: 'POST' })).status).toBe(409);
+
+    expect((await fetch(`${baseUrl}/jobs/${first.id}`, { method: 'DELETE' })).status).toBe(204);
+    expect((await fetch(`${baseUrl}/jobs/${first.id}`)).status).toBe(404);
+    await queue.idle();
+    expect(queue.get(second.id)?.outputs).toEqual([]);
+  });
+
+  it('returns 404 for unknown routes and jobs', async () => {
+    expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+    expect(await (await fetch(`${baseUrl}/jobs/missing`)).json()).toEqual({ error: 'Job not found' });
+  });
+});
@@ -0,0 +1,180 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import JSZip from 'jszip';
+import { DEFAULT_QUALITY, MIN_QUALITY, defaultBannerFormats, getFileExtension, type FitMode } from '../core';
+import { parseFormats, parseOutputType, resolvePacks } from '../cli/args';
+import { createJobQueue, type Job, type JobOptions, type JobQueue } from './jobs';
+import { openApiDocument } from './openapi';
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const fitModes: FitMode[] = ['cover', 'contain', 'stretch'];
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendFile = (res: ServerResponse, data: Buffer | Uint8Array, type: string, filename: string) => {
+  res.writeHead(200, {
+    'Content-Type': type,
+    'Content-Length': data.length,
+    'Content-Disposition': `attachment; filename="${filename.replace(/"/g, '')}"`,
+  });
+  res.end(data);
+};
+
+const readBody = (req: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_UPLOAD_BYTES) {
+      reject(new HttpError(413, `Uploads are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+/** Same rules as the CLI flags, read from the upload's query string. */
+export const parseJobOptions = (params: URLSearchParams): JobOptions => {
+  try {
+    const formats = [
+      ...(params.get('formats') ? parseFormats(params.get('formats')!) : []),
+      ...(params.get('packs') ? resolvePacks(params.get('packs')!) : []),
+    ];
+
+    const fitMode = (params.get('fit') ?? 'cover') as FitMode;
+    if (!fitModes.includes(fitMode)) throw new Error(`Unknown fit mode "${fitMode}"`);
+
+    const quality = Number(params.get('quality') ?? DEFAULT_QUALITY);
+    if (!Number.isInteger(quality) || quality < MIN_QUALITY || quality > 100) {
+      throw new Error(`Quality must be a whole number between ${MIN_QUALITY} and 100`);
+    }
+
+    let budget: number | undefined;
+    if (params.has('maxSize')) {
+      const maxSizeKb = Number(params.get('maxSize'));
+      if (!(maxSizeKb > 0)) throw new Error('maxSize must be a positive number of KB');
+      budget = Math.round(maxSizeKb * 1024);
+    }
+
+    return {
+      formats: formats.length > 0 ? formats : defaultBannerFormats,
+      fanOut: ['1', 'true'].includes(params.get('fanOut') ?? ''),
+      fitMode,
+      outputType: parseOutputType(params.get('type') ?? 'auto'),
+      quality,
+      budget,
+    };
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : 'Invalid options');
+  }
+};
+
+/** Public view of a job: output bytes are replaced by download links. */
+export const serializeJob = (job: Job) => ({
+  id: job.id,
+  status: job.status,
+  source: job.source,
+  progress: job.progress,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  completedAt: job.completedAt,
+  errorMessage: job.errorMessage,
+  outputs: job.outputs.map(output => ({
+    filename: output.filename,
+    format: { id: output.format.id, name: output.format.name, width: output.format.width, height: output.format.height },
+    type: output.type,
+    quality: output.quality,
+    size: output.size,
+    budget: output.budget,
+    budgetMet: output.budgetMet,
+    url: `/jobs/${job.id}/results/${encodeURIComponent(output.filename)}`,
+  })),
+  downloadUrl: job.status === 'completed' ? `/jobs/${job.id}/download` : undefined,
+});
+
+const getJob = (queue: JobQueue, id: string) => {
+  const job = queue.get(id);
+  if (!job) throw new HttpError(404, 'Job not found');
+  return job;
+};
+
+const getCompletedJob = (queue: JobQueue, id: string) => {
+  const job = getJob(queue, id);
+  if (job.status !== 'completed') throw new HttpError(409, `Job is ${job.status}`);
+  return job;
+};
+
+const createJob = async (queue: JobQueue, req: IncomingMessage, url: URL) => {
+  const sourceType = (req.headers['content-type'] ?? '').split(';')[0].trim();
+  if (!sourceType.startsWith('image/')) throw new HttpError(415, 'Upload the image as the request body with an image/* Content-Type');
+  const options = parseJobOptions(url.searchParams);
+  const data = await readBody(req);
+  if (data.length === 0) throw new HttpError(400, 'The request body is empty');
+  const source = url.searchParams.get('filename') || `upload.${getFileExtension(sourceType)}`;
+  // Serialized right away so the response reflects the job as submitted, before a runner picks it up
+  return serializeJob(queue.submit(source, sourceType, data, options));
+};
+
+const handleRequest = async (queue: JobQueue, req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const [resource, id, action, filename] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const route = `${req.method} /${[resource, id && ':id', action, filename && ':filename'].filter(Boolean).join('/')}`;
+
+  switch (route) {
+    case 'GET /openapi.json':
+      return sendJson(res, 200, openApiDocument);
+    case 'POST /jobs':
+      return sendJson(res, 202, await createJob(queue, req, url));
+    case 'GET /jobs/:id':
+      return sendJson(res, 200, serializeJob(getJob(queue, id)));
+    case 'DELETE /jobs/:id':
+      getJob(queue, id);
+      queue.remove(id);
+      res.writeHead(204).end();
+      return;
+    case 'POST /jobs/:id/cancel': {
+      const job = getJob(queue, id);
+      if (!queue.cancel(id)) throw new HttpError(409, `Job is ${job.status}`);
+      return sendJson(res, 200, serializeJob(job));
+    }
+    case 'GET /jobs/:id/results/:filename': {
+      const output = getCompletedJob(queue, id).outputs.find(o => o.filename === filename);
+      if (!output) throw new HttpError(404, 'Result not found');
+      return sendFile(res, output.data, output.type, output.filename);
+    }
+    case 'GET /jobs/:id/download': {
+      const job = getCompletedJob(queue, id);
+      const zip = new JSZip();
+      job.outputs.forEach(output => zip.file(output.filename, output.data));
+      const data = await zip.generateAsync({ type: 'nodebuffer' });
+      return sendFile(res, data, 'application/zip', `banners-${job.id}.zip`);
+    }
+    default:
+      throw new HttpError(404, 'Not found');
+  }
+};
+
+/** HTTP API for submitting banner jobs, polling them and downloading the results. */
+export const createApiServer = (queue: JobQueue = createJobQueue()): Server =>
+  createServer((req, res) => {
+    handleRequest(queue, req, res).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (!res.headersSent) sendJson(res, status, { error: error instanceof Error ? error.message : 'Internal error' });
+      else res.end();
+    });
+  });
@@ -0,0 +1,179 @@
+import { randomUUID } from 'node:crypto';
+import {
+  buildOutputFilename,
+  dedupeFilenames,
+  findBestFormat,
+  getDefaultOutputType,
+  type BannerFormat,
+  type FitMode,
+  type OutputType,
+  type OutputTypeSetting,
+  type ProcessingStatus,
+} from '../core';
+import { decodeSource, renderBanner } from '../node/render';
+
+export interface JobOptions {
+  formats: BannerFormat[];
+  fanOut: boolean;
+  fitMode: FitMode;
+  outputType: OutputTypeSetting;
+  quality: number;
+  /** Global budget in bytes, used for formats without their own `maxFileSize`. */
+  budget?: number;
+}
+
+export interface JobOutput {
+  filename: string;
+  format: BannerFormat;
+  type: OutputType;
+  quality: number;
+  size: number;
+  budget?: number;
+  budgetMet?: boolean;
+  data: Buffer;
+}
+
+export interface Job {
+  id: string;
+  /** Same values as the browser queue; the server never pauses a job. */
+  status: ProcessingStatus;
+  source: string;
+  sourceType: string;
+  options: JobOptions;
+  progress: number;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  outputs: JobOutput[];
+  errorMessage?: string;
+}
+
+export interface JobQueue {
+  submit: (source: string, sourceType: string, data: Buffer, options: JobOptions) => Job;
+  get: (id: string) => Job | undefined;
+  /** Cancels a queued or running job; a running job stops after the banner in progress. */
+  cancel: (id: string) => boolean;
+  remove: (id: string) => boolean;
+  /** Resolves once nothing is queued or running. */
+  idle: () => Promise<void>;
+}
+
+/** In-memory job queue running `concurrency` jobs at a time through the sharp pipeline. */
+export const createJobQueue = ({ concurrency = 1 } = {}): JobQueue => {
+  const jobs = new Map<string, Job>();
+  const inputs = new Map<string, Buffer>();
+  const pending: string[] = [];
+  let running = 0;
+  let idleWaiters: (() => void)[] = [];
+
+  const isActive = (job: Job) => job.status === 'processing' && jobs.get(job.id) === job;
+
+  const runJob = async (job: Job, data: Buffer) => {
+    job.status = 'processing';
+    job.startedAt = new Date().toISOString();
+    try {
+      const source = await decodeSource(data);
+      const outputType = job.options.outputType === 'auto'
+        ? getDefaultOutputType(job.sourceType)
+        : job.options.outputType;
+      const formats = job.options.fanOut
+        ? job.options.formats
+        : [findBestFormat(source.width, source.height, job.options.formats)];
+
+      for (const [index, format] of formats.entries()) {
+        if (!isActive(job)) return;
+        const budget = format.maxFileSize ?? job.options.budget;
+        const result = await renderBanner(source, {
+          outputType,
+          quality: job.options.quality,
+          fitMode: job.options.fitMode,
+          format,
+          budget,
+        });
+        if (!isActive(job)) return;
+        // Overlapping packs share sizes, and each result has to stay reachable by its name
+        const filename = dedupeFilenames([
+          ...job.outputs.map(output => output.filename),
+          buildOutputFilename(job.source, format, result.type),
+        ]).pop()!;
+        job.outputs.push({
+          filename,
+          format,
+          type: result.type,
+          quality: result.quality,
+          size: result.size,
+          budget,
+          budgetMet: result.budgetMet,
+          data: result.blob.data,
+        });
+        job.progress = Math.round(((index + 1) / formats.length) * 100);
+      }
+      job.status = 'completed';
+    } catch (error) {
+      if (!isActive(job)) return;
+      job.status = 'error';
+      job.errorMessage = error instanceof Error ? error.message : 'Processing failed';
+    } finally {
+      job.completedAt ??= new Date().toISOString();
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency && pending.length > 0) {
+      const id = pending.shift()!;
+      const job = jobs.get(id);
+      const data = inputs.get(id);
+      inputs.delete(id);
+      if (!job || !data || job.status !== 'queued') continue;
+      running++;
+      runJob(job, data).finally(() => {
+        running--;
+        pump();
+      });
+    }
+    if (running === 0 && pending.length === 0) {
+      idleWaiters.forEach(resolve => resolve());
+      idleWaiters = [];
+    }
+  };
+
+  const submit: JobQueue['submit'] = (source, sourceType, data, options) => {
+    const job: Job = {
+      id: randomUUID(),
+      status: 'queued',
+      source,
+      sourceType,
+      options,
+      progress: 0,
+      createdAt: new Date().toISOString(),
+      outputs: [],
+    };
+    jobs.set(job.id, job);
+    inputs.set(job.id, data);
+    pending.push(job.id);
+    queueMicrotask(pump);
+    return job;
+  };
+
+  const cancel = (id: string) => {
+    const job = jobs.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'processing')) return false;
+    job.status = 'cancelled';
+    job.completedAt = new Date().toISOString();
+    inputs.delete(id);
+    return true;
+  };
+
+  const remove = (id: string) => {
+    cancel(id);
+    inputs.delete(id);
+    return jobs.delete(id);
+  };
+
+  const idle = () => new Promise<void>(resolve => {
+    if (running === 0 && pending.length === 0) resolve();
+    else idleWaiters.push(resolve);
+  });
+
+  return { submit, get: id => jobs.get(id), cancel, remove, idle };
+};
@@ -0,0 +1,156 @@
+import { DEFAULT_QUALITY, MIN_QUALITY, presetPacks } from '../core';
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const jobResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Job' } } },
+});
+
+const jobIdParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } };
+
+export const openApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Banner Optimizer API',
+    version: '1.0.0',
+    description: 'Upload an image, let the server resize and compress it into banner formats, then download the results.',
+  },
+  paths: {
+    '/jobs': {
+      post: {
+        summary: 'Upload an image and queue a job',
+        description: 'The request body is the raw image. Options use the same rules as the CLI flags.',
+        parameters: [
+          { name: 'filename', in: 'query', schema: { type: 'string' }, description: 'Source file name, used to name the outputs' },
+          { name: 'formats', in: 'query', schema: { type: 'string', example: '728x90,600x500' }, description: 'Comma-separated banner sizes' },
+          {
+            name: 'packs',
+            in: 'query',
+            schema: { type: 'string', example: 'iab,email' },
+            description: `Comma-separated preset packs: ${presetPacks.map(pack => pack.id).join(', ')}`,
+          },
+          { name: 'fanOut', in: 'query', schema: { type: 'boolean', default: false }, description: 'Render every format instead of the best match' },
+          { name: 'fit', in: 'query', schema: { type: 'string', enum: ['cover', 'contain', 'stretch'], default: 'cover' } },
+          { name: 'type', in: 'query', schema: { type: 'string', enum: ['auto', 'jpeg', 'png', 'webp', 'avif'], default: 'auto' } },
+          { name: 'quality', in: 'query', schema: { type: 'integer', minimum: MIN_QUALITY, maximum: 100, default: DEFAULT_QUALITY } },
+          { name: 'maxSize', in: 'query', schema: { type: 'number', exclusiveMinimum: 0 }, description: 'Size budget in KB for formats without their own' },
+        ],
+        requestBody: {
+          required: true,
+          content: { 'image/*': { schema: { type: 'string', format: 'binary' } } },
+        },
+        responses: {
+          202: jobResponse('Job queued'),
+          400: errorResponse('Invalid options or empty body'),
+          413: errorResponse('Image too large'),
+          415: errorResponse('Body is not an image'),
+        },
+      },
+    },
+    '/jobs/{id}': {
+      parameters: [jobIdParameter],
+      get: {
+        summary: 'Poll a job',
+        responses: { 200: jobResponse('Current job state'), 404: errorResponse('Unknown job') },
+      },
+      delete: {
+        summary: 'Cancel a job if needed and discard it with its results',
+        responses: { 204: { description: 'Job removed' }, 404: errorResponse('Unknown job') },
+      },
+    },
+    '/jobs/{id}/cancel': {
+      parameters: [jobIdParameter],
+      post: {
+        summary: 'Cancel a queued or running job',
+        responses: {
+          200: jobResponse('Job cancelled'),
+          404: errorResponse('Unknown job'),
+          409: errorResponse('Job already finished'),
+        },
+      },
+    },
+    '/jobs/{id}/results/{filename}': {
+      parameters: [jobIdParameter, { name: 'filename', in: 'path', required: true, schema: { type: 'string' } }],
+      get: {
+        summary: 'Download one optimized banner',
+        responses: {
+          200: { description: 'Banner image', content: { 'image/*': { schema: { type: 'string', format: 'binary' } } } },
+          404: errorResponse('Unknown job or result'),
+          409: errorResponse('Job not completed'),
+        },
+      },
+    },
+    '/jobs/{id}/download': {
+      parameters: [jobIdParameter],
+      get: {
+        summary: 'Download every banner of a job as a ZIP',
+        responses: {
+          200: { description: 'ZIP archive', content: { 'application/zip': { schema: { type: 'string', format: 'binary' } } } },
+          404: errorResponse('Unknown job'),
+          409: errorResponse('Job not completed'),
+        },
+      },
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This document',
+        responses: { 200: { description: 'OpenAPI document', content: { 'application/json': {} } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: { error: { type: 'string' } },
+      },
+      Job: {
+        type: 'object',
+        required: ['id', 'status', 'source', 'progress', 'createdAt', 'outputs'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          status: {
+            type: 'string',
+            enum: ['queued', 'processing', 'paused', 'completed', 'error', 'cancelled'],
+            description: 'Same states as the browser queue; the server never pauses a job',
+          },
+          source: { type: 'string' },
+          progress: { type: 'integer', minimum: 0, maximum: 100 },
+          createdAt: { type: 'string', format: 'date-time' },
+          startedAt: { type: 'string', format: 'date-time' },
+          completedAt: { type: 'string', format: 'date-time' },
+          errorMessage: { type: 'string' },
+          outputs: { type: 'array', items: { $ref: '#/components/schemas/JobOutput' } },
+          downloadUrl: { type: 'string', description: 'ZIP of all outputs, once completed' },
+        },
+      },
+      JobOutput: {
+        type: 'object',
+        required: ['filename', 'format', 'type', 'quality', 'size', 'url'],
+        properties: {
+          filename: { type: 'string' },
+          format: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              width: { type: 'integer' },
+              height: { type: 'integer' },
+            },
+          },
+          type: { type: 'string', enum: ['image/jpeg', 'image/png', 'image/webp', 'image/avif'] },
+          quality: { type: 'integer' },
+          size: { type: 'integer', description: 'Bytes' },
+          budget: { type: 'integer', description: 'Size budget in bytes' },
+          budgetMet: { type: 'boolean' },
+          url: { type: 'string' },
+        },
+      },
+    },
+  },
+};
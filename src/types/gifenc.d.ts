@@ -0,0 +1,30 @@
+// gifenc ships without typings; only the parts used for animated output are declared
+declare module 'gifenc' {
+  export type Palette = number[][];
+  export type PaletteFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    /** Frame delay in milliseconds, stored in hundredths of a second. */
+    delay?: number;
+    /** -1 plays once, 0 loops forever, n repeats n more times. Read from the first frame only. */
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    dispose?: number;
+  }
+
+  export interface Encoder {
+    writeFrame: (index: Uint8Array, width: number, height: number, options?: WriteFrameOptions) => void;
+    finish: () => void;
+    bytes: () => Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): Encoder;
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: PaletteFormat; oneBitAlpha?: boolean | number; clearAlpha?: boolean }
+  ): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: PaletteFormat): Uint8Array;
+}
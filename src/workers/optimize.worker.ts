@@ -0,0 +1,25 @@
+import { optimizeImage, type OptimizeOptions, type OptimizeResult, type ProcessingProgress } from '@/lib/pipeline';
+
+export interface OptimizeRequest {
+  id: number;
+  file: Blob;
+  options: OptimizeOptions;
+}
+
+export type OptimizeResponse =
+  | { id: number; type: 'progress'; progress: ProcessingProgress }
+  | { id: number; type: 'result'; result: OptimizeResult }
+  | { id: number; type: 'error'; message: string };
+
+const worker = self as unknown as Worker;
+
+worker.addEventListener('message', async (e: MessageEvent<OptimizeRequest>) => {
+  const { id, file, options } = e.data;
+  const reply = (response: OptimizeResponse) => worker.postMessage(response);
+  try {
+    const result = await optimizeImage(file, options, progress => reply({ id, type: 'progress', progress }));
+    reply({ id, type: 'result', result });
+  } catch (error) {
+    reply({ id, type: 'error', message: error instanceof Error ? error.message : 'Processing failed' });
+  }
+});